@@ -23,3 +23,23 @@ test('normal', () => {
 	expect(res.map(i => i === handler ? null : i)).toEqual(answer);
 })
 
+
+test('maxSize evicts the least recently used entries until the total fits', () => {
+	const lru = new LRU<string, string>(-1, 10, value => value.length);
+	lru.set('a', 'xxxx');
+	lru.set('b', 'xxxx');
+	lru.get('a');
+	lru.set('c', 'xxxx');
+	expect([...lru.keys()]).toEqual(['a', 'c']);
+	expect(lru.totalSize).toBe(8);
+
+	lru.set('a', 'x');
+	expect(lru.totalSize).toBe(5);
+	lru.delete('c');
+	expect(lru.totalSize).toBe(1);
+
+	// a value larger than maxSize is not kept, and evicts nothing
+	lru.set('d', 'x'.repeat(11));
+	expect([...lru.keys()]).toEqual(['a']);
+	expect(lru.totalSize).toBe(1);
+})
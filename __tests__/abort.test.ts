@@ -0,0 +1,248 @@
+import { createAsync, AbortError, DIMENSIONS } from '../src';
+import { sleep } from '../src/utils';
+
+describe('abort / abortAll', () => {
+  test('abort rejects the pending call with an AbortError', async () => {
+    const getData = createAsync(async (id: number) => {
+      await sleep(50);
+      return id;
+    });
+
+    const p = getData(1);
+    getData.abort(1);
+
+    await expect(p).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test('abort only affects calls made with the same params', async () => {
+    const getData = createAsync(async (id: number) => {
+      await sleep(30);
+      return id;
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    getData.abort(1);
+
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+    await expect(p2).resolves.toBe(2);
+  });
+
+  test('abortAll rejects every pending call', async () => {
+    const getData = createAsync(async (id: number) => {
+      await sleep(30);
+      return id;
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    getData.abortAll();
+
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test('withSignal passes the signal to fn as trailing argument', async () => {
+    let received: AbortSignal | undefined;
+    const getData = createAsync(async (id: number, signal?: AbortSignal) => {
+      received = signal;
+      await sleep(30);
+      return id;
+    }, {
+      withSignal: true,
+    });
+
+    const p = getData(1);
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(received).toBeInstanceOf(AbortSignal);
+    expect(received!.aborted).toBe(false);
+
+    getData.abort(1);
+    expect(received!.aborted).toBe(true);
+    expect(received!.reason).toBeInstanceOf(AbortError);
+    await expect(p).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test('fn does not receive the signal by default', async () => {
+    let argCount = -1;
+    const getData = createAsync(async (...args: any[]) => {
+      argCount = args.length;
+      return 1;
+    });
+
+    await getData('a');
+    expect(argCount).toBe(1);
+  });
+
+  test('an aborted call is not retried', async () => {
+    let times = 0;
+    const getData = createAsync(async () => {
+      times++;
+      await sleep(30);
+      throw new Error('failed');
+    }, {
+      retryStrategy: (error, currentRetryCount) => currentRetryCount <= 5,
+    });
+
+    const p = getData();
+    await sleep(10);
+    getData.abort();
+
+    await expect(p).rejects.toBeInstanceOf(AbortError);
+    await sleep(100);
+    expect(times).toBe(1);
+  });
+
+  test('single callers sharing an execution are all aborted', async () => {
+    const getData = createAsync(async () => {
+      await sleep(30);
+      return 1;
+    }, {
+      single: true,
+    });
+
+    const p1 = getData();
+    const p2 = getData();
+    getData.abort();
+
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test('a caller sharing a FUNCTION-dimension single execution is aborted by its own params', async () => {
+    const fn = jest.fn(async (n: number) => {
+      await sleep(30);
+      return n;
+    });
+    const getData = createAsync(fn, {
+      single: true,
+      singleDimension: DIMENSIONS.FUNCTION,
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    getData.abort(2);
+
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+    await expect(p1).resolves.toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('aborting the caller that started a FUNCTION-dimension single execution leaves it running for the others', async () => {
+    const signals: AbortSignal[] = [];
+    const fn = jest.fn(async (n: number, signal?: AbortSignal) => {
+      signals.push(signal!);
+      await sleep(30);
+      return n;
+    });
+    const getData = createAsync(fn, {
+      single: true,
+      singleDimension: DIMENSIONS.FUNCTION,
+      withSignal: true,
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    getData.abort(1);
+
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+    await expect(p2).resolves.toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(signals[0].aborted).toBe(false);
+  });
+
+  test('aborting a debounced call before its window fires skips fn', async () => {
+    let times = 0;
+    const getData = createAsync(async (id: number) => {
+      times++;
+      return id;
+    }, {
+      debounceTime: 30,
+      debounceDimension: DIMENSIONS.PARAMETERS,
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(1);
+    const p3 = getData(2);
+    getData.abort(1);
+
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+    await expect(p3).resolves.toBe(2);
+    expect(times).toBe(1);
+  });
+
+  test('aborting a folded debounced call leaves the window running', async () => {
+    let times = 0;
+    const getData = createAsync(async (id: number) => {
+      times++;
+      return id;
+    }, {
+      debounceTime: 30,
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    getData.abort(1);
+
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+    await expect(p2).resolves.toBe(2);
+    expect(times).toBe(1);
+  });
+
+  test('aborting the call a debounce window runs with leaves it running for the others', async () => {
+    let times = 0;
+    const getData = createAsync(async (id: number) => {
+      times++;
+      return id;
+    }, {
+      debounceTime: 30,
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    getData.abort(2);
+
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+    await expect(p1).resolves.toBe(2);
+    expect(times).toBe(1);
+  });
+
+  test('a new call after abort runs normally', async () => {
+    const getData = createAsync(async (id: number) => {
+      await sleep(20);
+      return id;
+    }, {
+      debounceTime: 20,
+    });
+
+    const p1 = getData(1);
+    getData.abort(1);
+    await expect(p1).rejects.toBeInstanceOf(AbortError);
+
+    await expect(getData(3)).resolves.toBe(3);
+  });
+
+  test('takeLatest aborts the signal of a superseded call', async () => {
+    const signals: AbortSignal[] = [];
+    const getData = createAsync(async (id: number, signal?: AbortSignal) => {
+      signals.push(signal!);
+      await sleep(50);
+      return id;
+    }, {
+      takeLatest: true,
+      withSignal: true,
+    });
+
+    const p1 = getData(1);
+    await sleep(10);
+    const p2 = getData(2);
+
+    const res = await Promise.all([p1, p2]);
+    expect(res).toEqual([2, 2]);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason).toBeInstanceOf(AbortError);
+    expect(signals[1].aborted).toBe(false);
+  });
+});
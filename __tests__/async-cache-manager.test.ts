@@ -0,0 +1,91 @@
+import { createAsync } from '../src';
+import type { AsyncCacheManager } from '../src';
+import { createMemoryAsyncCacheManager } from './test-helpers';
+import { sleep } from '../src/utils';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AsyncCacheManager', () => {
+  test('awaits the lookup and returns a hit without calling fn', async () => {
+    const cacheManager = createMemoryAsyncCacheManager<string>(5);
+    const fn = jest.fn(async (id: string) => `user ${id}`);
+    const getUser = createAsync(fn, { cacheManager });
+
+    await expect(getUser('1')).resolves.toBe('user 1');
+    await sleep(10);
+    expect(cacheManager.store.get('["1"]')?.value).toBe('user 1');
+
+    await expect(getUser('1')).resolves.toBe('user 1');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(cacheManager.get).toHaveBeenCalledTimes(2);
+  });
+
+  test('revalidates hits with swr, staleTime and invalidate', async () => {
+    const cacheManager = createMemoryAsyncCacheManager<number>();
+    let version = 0;
+    const fn = jest.fn(async () => ++version);
+    const onBackgroundUpdate = jest.fn();
+    const getData = createAsync(fn, { cacheManager, swr: true, onBackgroundUpdate });
+
+    await getData();
+    await flush();
+    await expect(getData()).resolves.toBe(1);
+    await flush();
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onBackgroundUpdate).toHaveBeenCalledWith(2, undefined);
+  });
+
+  test('treats a failed lookup as a miss', async () => {
+    const cacheManager: AsyncCacheManager<string> = {
+      get: () => Promise.reject(new Error('unavailable')),
+      set: () => Promise.resolve(),
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve(),
+    };
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { cacheManager });
+
+    await expect(getData()).resolves.toBe('data');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not fail calls when a write fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const cacheManager: AsyncCacheManager<string> = {
+      get: () => Promise.resolve(null),
+      set: () => Promise.reject(new Error('quota')),
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve(),
+    };
+    const getData = createAsync(async () => 'data', { cacheManager });
+
+    await expect(getData()).resolves.toBe('data');
+    await flush();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[great-async]'), expect.any(Error));
+    warn.mockRestore();
+  });
+
+  test('setCache, updateCache, clearCache and prefetch go through the manager', async () => {
+    const cacheManager = createMemoryAsyncCacheManager<string[]>();
+    const fn = jest.fn(async () => ['a']);
+    const getTodos = createAsync(fn, { cacheManager });
+
+    await getTodos.prefetch();
+    await flush();
+    await getTodos.prefetch();
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    getTodos.updateCache([], prev => [...(prev || []), 'b']);
+    await flush();
+    await expect(getTodos()).resolves.toEqual(['a', 'b']);
+
+    getTodos.setCache([], ['c']);
+    await flush();
+    await expect(getTodos()).resolves.toEqual(['c']);
+
+    getTodos.clearCache();
+    await flush();
+    await expect(getTodos()).resolves.toEqual(['a']);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
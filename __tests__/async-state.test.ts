@@ -0,0 +1,114 @@
+import { createAsync } from '../src';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const delayed = <T>(value: T, time = 100) =>
+  new Promise<T>(resolve => setTimeout(() => resolve(value), time));
+
+describe('getState / subscribe', () => {
+  test('is idle before the first call', () => {
+    const getData = createAsync(async (v: string) => v);
+    expect(getData.getState('a')).toEqual({
+      status: 'idle',
+      data: undefined,
+      error: null,
+      updatedAt: 0,
+      isFetching: false,
+    });
+  });
+
+  test('goes from pending to success', async () => {
+    const getData = createAsync((v: string) => delayed(`res-${v}`));
+
+    const p = getData('a');
+    expect(getData.getState('a')).toMatchObject({ status: 'pending', isFetching: true });
+    expect(getData.getState('b').status).toBe('idle');
+
+    await jest.advanceTimersByTimeAsync(100);
+    await p;
+    expect(getData.getState('a')).toEqual({
+      status: 'success',
+      data: 'res-a',
+      error: null,
+      updatedAt: Date.now(),
+      isFetching: false,
+    });
+  });
+
+  test('keeps the last data while refetching and after an error', async () => {
+    let fail = false;
+    const getData = createAsync(async () => {
+      await delayed(null);
+      if (fail) throw new Error('fail');
+      return 'ok';
+    });
+
+    const first = getData();
+    await jest.advanceTimersByTimeAsync(100);
+    await first;
+
+    fail = true;
+    const second = getData();
+    expect(getData.getState()).toMatchObject({ status: 'success', data: 'ok', isFetching: true });
+    const assertion = expect(second).rejects.toThrow('fail');
+    await jest.advanceTimersByTimeAsync(100);
+    await assertion;
+    expect(getData.getState()).toMatchObject({
+      status: 'error',
+      data: 'ok',
+      error: new Error('fail'),
+      isFetching: false,
+    });
+  });
+
+  test('isFetching stays true until every concurrent call settled', async () => {
+    const getData = createAsync((time: number) => delayed(time, time), {
+      genKeyByParams: () => 'same',
+    });
+
+    getData(100);
+    getData(200);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(getData.getState(0)).toMatchObject({ status: 'success', data: 100, isFetching: true });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(getData.getState(0)).toMatchObject({ data: 200, isFetching: false });
+  });
+
+  test('a cache hit fills the state of a fresh instance', async () => {
+    const id = `async-state-${Date.now()}`;
+    const first = createAsync(async () => 'cached', { id, ttl: 1000 });
+    await first();
+
+    const second = createAsync(async () => 'fresh', { id, ttl: 1000 });
+    await expect(second()).resolves.toBe('cached');
+    expect(second.getState()).toMatchObject({ status: 'success', data: 'cached' });
+  });
+
+  test('subscribe notifies every change until unsubscribed', async () => {
+    const getData = createAsync((v: string) => delayed(v));
+    const listener = jest.fn();
+    const unsubscribe = getData.subscribe(['a'], listener);
+    const other = jest.fn();
+    getData.subscribe(['b'], other);
+
+    getData('a');
+    await jest.advanceTimersByTimeAsync(100);
+    expect(listener.mock.calls.map(([s]) => [s.status, s.isFetching])).toEqual([
+      ['pending', true],
+      ['success', false],
+    ]);
+    expect(listener.mock.calls[1][0]).toBe(getData.getState('a'));
+    expect(other).not.toHaveBeenCalled();
+
+    unsubscribe();
+    getData('a');
+    await jest.advanceTimersByTimeAsync(100);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
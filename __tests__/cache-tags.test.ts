@@ -0,0 +1,119 @@
+import { createAsync, invalidateTags, IdCacheManager } from '../src';
+import type { CacheManager } from '../src';
+import { cacheManagerOf, subscribeCacheEvents } from '../src/cache-events';
+
+afterEach(() => {
+  IdCacheManager.clearAll();
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('invalidateTags', () => {
+  test('marks matching entries stale across functions', async () => {
+    const user = jest.fn(async (id: string) => ({ id, kind: 'user' }));
+    const posts = jest.fn(async (id: string) => ({ id, kind: 'posts' }));
+    const getUser = createAsync(user, { ttl: 1000, tags: ([id]) => [`user:${id}`] });
+    const getPosts = createAsync(posts, {
+      id: `posts-${Date.now()}`,
+      ttl: 1000,
+      tags: ([id]) => [`user:${id}`, 'posts'],
+    });
+
+    await Promise.all([getUser('42'), getUser('7'), getPosts('42')]);
+    invalidateTags(['user:42']);
+
+    // stale values are still returned, and revalidated in the background
+    await expect(getUser('42')).resolves.toEqual({ id: '42', kind: 'user' });
+    await getUser('7');
+    await getPosts('42');
+    await flush();
+    expect(user.mock.calls).toEqual([['42'], ['7'], ['42']]);
+    expect(posts.mock.calls).toEqual([['42'], ['42']]);
+  });
+
+  test('clear deletes the matching entries', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 1000, tags: ['list'] });
+
+    await getData();
+    invalidateTags(['list'], { clear: true });
+    await getData();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('tags can be computed from the result', async () => {
+    const fn = jest.fn(async (slug: string) => ({ slug, authorId: 'a1' }));
+    const getArticle = createAsync(fn, {
+      ttl: 1000,
+      tags: (params, article) => [`author:${article.authorId}`],
+    });
+
+    await getArticle('hello');
+    invalidateTags(['author:a1'], { clear: true });
+    await getArticle('hello');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('an entry written again with other tags no longer matches the old ones', async () => {
+    let owner = 'alice';
+    const fn = jest.fn(async () => ({ owner }));
+    const getDoc = createAsync(fn, { ttl: 1000, tags: (params, doc) => [`owner:${doc.owner}`] });
+
+    await getDoc();
+    owner = 'bob';
+    getDoc.setCache([], { owner: 'bob' });
+    invalidateTags(['owner:alice'], { clear: true });
+    await expect(getDoc()).resolves.toEqual({ owner: 'bob' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('works with custom managers', async () => {
+    const store = new Map<string, string>();
+    const cacheManager: CacheManager<string> = {
+      get: key => (store.has(key) ? { value: store.get(key)! } : null),
+      set: (key, value) => { store.set(key, value); },
+      delete: key => { store.delete(key); },
+      clear: () => store.clear(),
+    };
+    const getData = createAsync(async (v: string) => v, { cacheManager, tags: ['custom'] });
+
+    await getData('a');
+    expect(store.size).toBe(1);
+    invalidateTags(['custom'], { clear: true });
+    expect(store.size).toBe(0);
+  });
+
+  test('entries of a function caching nothing are not tagged', async () => {
+    const getData = createAsync(async (v: number) => v, { tags: ['uncached'] });
+    const invalidated: (string | undefined)[] = [];
+    await getData(1);
+    getData.setCache([2], 2);
+    subscribeCacheEvents(cacheManagerOf(getData)!, (event) => {
+      if (event.type === 'invalidate') invalidated.push(event.key);
+    });
+
+    invalidateTags(['uncached']);
+    expect(invalidated).toEqual([]);
+  });
+
+  test('evicted and cleared entries no longer carry their tags', async () => {
+    const id = `tags-evicted-${Date.now()}`;
+    const getData = createAsync(async (v: number) => v, { id, ttl: 1000, cacheCapacity: 2, tags: ['list'] });
+    const invalidated: (string | undefined)[] = [];
+    subscribeCacheEvents(IdCacheManager.forId(id, 1000, 2), (event) => {
+      if (event.type === 'invalidate') invalidated.push(event.key);
+    });
+
+    for (let i = 1; i <= 10; i++) {
+      await getData(i);
+    }
+    invalidateTags(['list']);
+    // only the 2 cached keys are walked
+    expect(invalidated).toHaveLength(2);
+
+    getData.clearCache();
+    invalidated.length = 0;
+    invalidateTags(['list']);
+    expect(invalidated).toHaveLength(0);
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  createAsync,
+  createCircuitBreaker,
+  CircuitBreaker,
+  CircuitOpenError,
+  AbortError,
+} from '../src';
+
+const uniqueResource = (() => {
+  let n = 0;
+  return (label: string) => `${label}-${++n}-${Date.now()}`;
+})();
+
+const fail = (message = 'down') => () => Promise.reject(new Error(message));
+const ok = <T>(value: T) => () => Promise.resolve(value);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  test('opens after failureThreshold consecutive failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+
+    await expect(breaker.run(fail())).rejects.toThrow('down');
+    await expect(breaker.run(ok(1))).resolves.toBe(1);
+    await expect(breaker.run(fail())).rejects.toThrow('down');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.run(fail())).rejects.toThrow('down');
+    expect(breaker.getSnapshot()).toEqual({ state: 'open', failures: 2, openedAt: Date.now() });
+
+    const task = jest.fn(ok(1));
+    const error = await breaker.run(task).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfter).toBe(1000);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  test('half-open lets halfOpenMax trial calls through', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, halfOpenMax: 2 });
+    await expect(breaker.run(fail())).rejects.toThrow();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(breaker.state).toBe('half-open');
+
+    let resolveTrial!: (value: number) => void;
+    const first = breaker.run(() => new Promise<number>((resolve) => { resolveTrial = resolve; }));
+    const second = breaker.run(() => new Promise<number>(() => {}));
+    const third = breaker.run(ok(3)).catch(e => e);
+    expect(await third).toBeInstanceOf(CircuitOpenError);
+    expect((await third).retryAfter).toBe(0);
+
+    resolveTrial(1);
+    await expect(first).resolves.toBe(1);
+    expect(breaker.getSnapshot()).toEqual(expect.objectContaining({ state: 'closed', failures: 0 }));
+    void second;
+  });
+
+  test('a failed trial call opens the circuit again', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 });
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.run(fail())).rejects.toThrow();
+    }
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(breaker.run(fail())).rejects.toThrow('down');
+    expect(breaker.state).toBe('open');
+    await expect(breaker.run(ok(1))).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  test('aborted calls are not counted as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(breaker.run(() => Promise.reject(new AbortError()))).rejects.toBeInstanceOf(AbortError);
+    await expect(breaker.run(fail(), { signal: controller.signal })).rejects.toThrow();
+    expect(breaker.state).toBe('closed');
+  });
+
+  test('notifies listeners of state changes', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    const listener = jest.fn();
+    const unsubscribe = breaker.subscribe(listener);
+
+    await breaker.run(fail()).catch(() => {});
+    await jest.advanceTimersByTimeAsync(1000);
+    await breaker.run(ok(1));
+    expect(listener.mock.calls.map(([snapshot]) => snapshot.state)).toEqual(['open', 'half-open', 'closed']);
+
+    unsubscribe();
+    breaker.run(fail()).catch(() => {});
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  test('reset closes the circuit', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    await breaker.run(fail()).catch(() => {});
+    breaker.reset();
+    expect(breaker.getSnapshot()).toEqual(expect.objectContaining({ state: 'closed', failures: 0 }));
+  });
+
+  test('rejects invalid options', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow();
+    expect(() => new CircuitBreaker({ halfOpenMax: 0 })).toThrow();
+  });
+
+  test('forResource returns the same instance and warns on mismatched options', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const resource = uniqueResource('api');
+    const a = createCircuitBreaker(resource, { failureThreshold: 2 });
+    const b = createCircuitBreaker(resource, { failureThreshold: 2 });
+    expect(a).toBe(b);
+    expect(warn).not.toHaveBeenCalled();
+
+    createCircuitBreaker(resource, { failureThreshold: 3 });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`"${resource}"`));
+  });
+});
+
+describe('createAsync circuitBreaker option', () => {
+  test('rejects without calling fn while open, and counts executions rather than attempts', async () => {
+    const fn = jest.fn(async () => { throw new Error('down'); });
+    const fetchData = createAsync(fn, {
+      retryCount: 2,
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 },
+    });
+
+    await expect(fetchData()).rejects.toThrow('down');
+    expect(fetchData.circuitBreaker!.state).toBe('closed');
+    await expect(fetchData()).rejects.toThrow('down');
+    expect(fn).toHaveBeenCalledTimes(6);
+    expect(fetchData.circuitBreaker!.state).toBe('open');
+
+    await expect(fetchData()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(6);
+
+    fn.mockResolvedValueOnce(undefined as never);
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(fetchData()).resolves.toBeUndefined();
+    expect(fetchData.circuitBreaker!.state).toBe('closed');
+  });
+
+  test('a shared breaker opens for every function using it', async () => {
+    const breaker = createCircuitBreaker(uniqueResource('upstream'), { failureThreshold: 1 });
+    const getUser = createAsync(async () => { throw new Error('down'); }, { circuitBreaker: breaker });
+    const posts = jest.fn(async () => []);
+    const getPosts = createAsync(posts, { circuitBreaker: breaker });
+
+    await expect(getUser()).rejects.toThrow('down');
+    await expect(getPosts()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(posts).not.toHaveBeenCalled();
+    expect(getPosts.circuitBreaker).toBe(breaker);
+  });
+
+  test('circuitBreakerServeStale resolves with the last result while open', async () => {
+    const fn = jest.fn(async (id: string) => `user ${id}`);
+    const getUser = createAsync(fn, {
+      circuitBreaker: { failureThreshold: 1 },
+      circuitBreakerServeStale: true,
+    });
+
+    await expect(getUser('1')).resolves.toBe('user 1');
+    fn.mockRejectedValueOnce(new Error('down'));
+    await expect(getUser('1')).rejects.toThrow('down');
+
+    await expect(getUser('1')).resolves.toBe('user 1');
+    // nothing to serve for params never fetched
+    await expect(getUser('2')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('circuitBreaker is null without the option', () => {
+    expect(createAsync(async () => 1).circuitBreaker).toBeNull();
+  });
+});
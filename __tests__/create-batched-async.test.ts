@@ -0,0 +1,124 @@
+import { createBatchedAsync, IdCacheManager, MissingBatchItemError } from '../src';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const usersById = (ids: string[]) => ids.map(id => ({ id, name: `user ${id}` }));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  IdCacheManager.clearAll();
+});
+
+describe('createBatchedAsync', () => {
+  test('collects the calls of one tick into a single batch', async () => {
+    const batchFn = jest.fn(async (ids: string[]) => usersById(ids));
+    const getUser = createBatchedAsync(batchFn);
+
+    const calls = Promise.all([getUser('1'), getUser('2'), getUser('3')]);
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(calls).resolves.toEqual(usersById(['1', '2', '3']));
+    expect(batchFn.mock.calls).toEqual([[['1', '2', '3']]]);
+  });
+
+  test('batchWindowMs collects calls over a window', async () => {
+    const batchFn = jest.fn(async (ids: string[]) => usersById(ids));
+    const getUser = createBatchedAsync(batchFn, { batchWindowMs: 50 });
+
+    const a = getUser('1');
+    await jest.advanceTimersByTimeAsync(30);
+    const b = getUser('2');
+    await jest.advanceTimersByTimeAsync(20);
+    await Promise.all([a, b]);
+    expect(batchFn.mock.calls).toEqual([[['1', '2']]]);
+  });
+
+  test('maxBatchSize sends a full batch right away', async () => {
+    const batchFn = jest.fn(async (ids: string[]) => usersById(ids));
+    const getUser = createBatchedAsync(batchFn, { maxBatchSize: 2, batchWindowMs: 50 });
+
+    const calls = Promise.all(['1', '2', '3'].map(id => getUser(id)));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(batchFn.mock.calls).toEqual([[['1', '2']]]);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(batchFn.mock.calls).toEqual([[['1', '2']], [['3']]]);
+    await expect(calls).resolves.toHaveLength(3);
+  });
+
+  test('sends each key once per batch', async () => {
+    const batchFn = jest.fn(async (ids: string[]) => usersById(ids));
+    const getUser = createBatchedAsync(batchFn);
+
+    const calls = Promise.all([getUser('1'), getUser('1'), getUser('2')]);
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(calls).resolves.toEqual(usersById(['1', '1', '2']));
+    expect(batchFn.mock.calls).toEqual([[['1', '2']]]);
+  });
+
+  test('keyOf matches items in any order and rejects missing keys', async () => {
+    const getUser = createBatchedAsync(
+      async (ids: string[]) => usersById(ids.filter(id => id !== '2')).reverse(),
+      { keyOf: (user: User) => user.id },
+    );
+
+    const a = getUser('1');
+    const b = getUser('2').catch(e => e);
+    const c = getUser('3');
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(a).resolves.toEqual({ id: '1', name: 'user 1' });
+    await expect(c).resolves.toEqual({ id: '3', name: 'user 3' });
+    const error = await b;
+    expect(error).toBeInstanceOf(MissingBatchItemError);
+    expect(error.key).toBe('2');
+  });
+
+  test('an Error item rejects only its own call', async () => {
+    const getUser = createBatchedAsync(async (ids: string[]) => ids.map(id => (
+      id === '2' ? new Error('not allowed') : { id, name: `user ${id}` }
+    )));
+
+    const a = getUser('1');
+    const b = getUser('2').catch(e => e);
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(a).resolves.toEqual({ id: '1', name: 'user 1' });
+    expect((await b).message).toBe('not allowed');
+  });
+
+  test('a failed batch rejects every call', async () => {
+    const getUser = createBatchedAsync(async (_ids: string[]): Promise<User[]> => {
+      throw new Error('down');
+    });
+
+    const calls = [getUser('1'), getUser('2')].map(p => p.catch(e => e.message));
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(Promise.all(calls)).resolves.toEqual(['down', 'down']);
+  });
+
+  test('rejects when the result does not line up with the keys', async () => {
+    const getUser = createBatchedAsync(async (_ids: string[]) => [] as User[]);
+
+    const call = getUser('1').catch(e => e);
+    await jest.advanceTimersByTimeAsync(0);
+    expect((await call).message).toMatch('one item per key');
+  });
+
+  test('caches items per key through the createAsync options', async () => {
+    const batchFn = jest.fn(async (ids: string[]) => usersById(ids));
+    const getUser = createBatchedAsync(batchFn, { id: `users-${Date.now()}`, ttl: 1000 });
+
+    const first = Promise.all([getUser('1'), getUser('2')]);
+    await jest.advanceTimersByTimeAsync(0);
+    await first;
+
+    const second = Promise.all([getUser('1'), getUser('3')]);
+    await jest.advanceTimersByTimeAsync(0);
+    await expect(second).resolves.toEqual(usersById(['1', '3']));
+    expect(batchFn.mock.calls).toEqual([[['1', '2']], [['3']]]);
+  });
+});
@@ -0,0 +1,172 @@
+import { createAsync, createMutation, IdCacheManager } from '../src';
+import { sleep } from '../src/utils';
+import { createMemoryAsyncCacheManager } from './test-helpers';
+
+afterEach(() => {
+  IdCacheManager.clearAll();
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createMutation', () => {
+  test('returns the result of fn and calls the callbacks', async () => {
+    const onSuccess = jest.fn();
+    const onSettled = jest.fn();
+    const save = createMutation(async (a: number, b: number) => a + b, { onSuccess, onSettled });
+
+    await expect(save(1, 2)).resolves.toBe(3);
+    expect(onSuccess).toHaveBeenCalledWith(3, [1, 2]);
+    expect(onSettled).toHaveBeenCalledWith(3, undefined, [1, 2]);
+  });
+
+  test('invalidates enhanced functions, ids and tags after success', async () => {
+    const list = jest.fn(async () => ['a']);
+    const user = jest.fn(async (id: string) => ({ id }));
+    const posts = jest.fn(async () => ['post']);
+    const getList = createAsync(list, { ttl: 1000 });
+    const userId = `user-${Date.now()}`;
+    const getUser = createAsync(user, { id: userId, ttl: 1000 });
+    const getPosts = createAsync(posts, { ttl: 1000, tags: ['posts'] });
+    await Promise.all([getList(), getUser('1'), getPosts()]);
+
+    const save = createMutation(async () => 'ok', {
+      invalidates: [getList, { id: userId }, { tags: ['posts'] }],
+    });
+    await save();
+
+    await Promise.all([getList(), getUser('1'), getPosts()]);
+    await flush();
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(user).toHaveBeenCalledTimes(2);
+    expect(posts).toHaveBeenCalledTimes(2);
+  });
+
+  test('computes the targets from the result and params', async () => {
+    const fn = jest.fn(async (id: string) => ({ id }));
+    const getUser = createAsync(fn, { ttl: 1000, tags: ([id]) => [`user:${id}`] });
+    await Promise.all([getUser('1'), getUser('2')]);
+
+    const invalidates = jest.fn((data: string, [id]: [string]) => [{ tags: [`user:${id}`] }]);
+    const save = createMutation(async (id: string) => `saved ${id}`, { invalidates });
+    await save('2');
+    expect(invalidates).toHaveBeenCalledWith('saved 2', ['2']);
+
+    await Promise.all([getUser('1'), getUser('2')]);
+    await flush();
+    expect(fn.mock.calls).toEqual([['1'], ['2'], ['2']]);
+  });
+
+  test('does not invalidate when fn fails', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 1000 });
+    await getData();
+
+    const onError = jest.fn();
+    const onSettled = jest.fn();
+    const error = new Error('failed');
+    const save = createMutation(async () => { throw error; }, {
+      invalidates: [getData],
+      onError,
+      onSettled,
+    });
+
+    await expect(save()).rejects.toBe(error);
+    expect(onError).toHaveBeenCalledWith(error, []);
+    expect(onSettled).toHaveBeenCalledWith(undefined, error, []);
+    await getData();
+    await flush();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('applies optimistic updates before fn runs', async () => {
+    const getTodos = createAsync(async () => ['a'], { ttl: 1000 });
+    await getTodos();
+
+    let seen: string[] | undefined;
+    const add = createMutation(async (todo: string) => {
+      seen = getTodos.getState().data;
+      return todo;
+    }, {
+      onMutate: ([todo], optimistic) => {
+        optimistic.updateCache(getTodos, [], prev => [...(prev || []), todo]);
+      },
+    });
+
+    await add('b');
+    expect(seen).toEqual(['a', 'b']);
+    await expect(getTodos()).resolves.toEqual(['a', 'b']);
+  });
+
+  test('rolls optimistic updates back when fn fails', async () => {
+    const fn = jest.fn(async (id: string) => `user ${id}`);
+    const getUser = createAsync(fn, { ttl: 1000 });
+    await getUser('1');
+
+    const save = createMutation(async (_id: string) => { throw new Error('failed'); }, {
+      onMutate: ([id], optimistic) => {
+        optimistic.setCache(getUser, [id], 'optimistic');
+        optimistic.updateCache(getUser, [id], prev => `${prev}!`);
+        optimistic.setCache(getUser, ['2'], 'new');
+      },
+    });
+
+    await expect(save('1')).rejects.toThrow('failed');
+    await expect(getUser('1')).resolves.toBe('user 1');
+    // an entry that did not exist is removed again
+    await expect(getUser('2')).resolves.toBe('user 2');
+    expect(fn.mock.calls).toEqual([['1'], ['2']]);
+  });
+
+  test('rolls back optimistic updates read from an asynchronous cache manager', async () => {
+    const cacheManager = createMemoryAsyncCacheManager<string>(5);
+    const fn = jest.fn(async (id: string) => `user ${id}`);
+    const getUser = createAsync(fn, { cacheManager });
+    await getUser('1');
+    await sleep(10);
+
+    // fails before the cached value was even read
+    const save = createMutation(async (_id: string) => { throw new Error('failed'); }, {
+      onMutate: ([id], optimistic) => {
+        optimistic.setCache(getUser, [id], 'optimistic');
+      },
+    });
+
+    await expect(save('1')).rejects.toThrow('failed');
+    await sleep(20);
+    expect([...cacheManager.store.values()].map(entry => entry.value)).toEqual(['user 1']);
+    await expect(getUser('1')).resolves.toBe('user 1');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not bring the last result back as a fresh entry once it expired', async () => {
+    let n = 0;
+    const fn = jest.fn(async () => `srv${++n}`);
+    const getData = createAsync(fn, { ttl: 30 });
+    await getData();
+    await sleep(50);
+
+    const save = createMutation(async () => { throw new Error('failed'); }, {
+      onMutate: (_params, optimistic) => {
+        optimistic.updateCache(getData, [], prev => `${prev}!`);
+      },
+    });
+
+    await expect(save()).rejects.toThrow('failed');
+    expect(getData.getState()).toMatchObject({ status: 'success', data: 'srv1' });
+    await expect(getData()).resolves.toBe('srv2');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not call fn when onMutate throws', async () => {
+    const fn = jest.fn(async () => 'ok');
+    const onError = jest.fn();
+    const save = createMutation(fn, {
+      onMutate: () => { throw new Error('invalid'); },
+      onError,
+    });
+
+    await expect(save()).rejects.toThrow('invalid');
+    expect(fn).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { createAsync, DIMENSIONS } from '../src';
+
+const createTracked = () => {
+  const calls: any[] = [];
+  const fn = async (v: string) => {
+    calls.push(v);
+    return `res-${v}`;
+  };
+  return { calls, fn };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('debounceLeading', () => {
+  test('a single call runs immediately and only once', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { debounceTime: 100, debounceLeading: true });
+
+    const p = getData('a');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['a']);
+    await expect(p).resolves.toBe('res-a');
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(calls).toEqual(['a']);
+  });
+
+  test('calls following the leading one fold into a trailing execution', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { debounceTime: 100, debounceLeading: true });
+
+    const p1 = getData('a');
+    await jest.advanceTimersByTimeAsync(50);
+    const p2 = getData('b');
+    await jest.advanceTimersByTimeAsync(50);
+    const p3 = getData('c');
+
+    expect(calls).toEqual(['a']);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(calls).toEqual(['a', 'c']);
+    await expect(p1).resolves.toBe('res-a');
+    await expect(p2).resolves.toBe('res-c');
+    await expect(p3).resolves.toBe('res-c');
+  });
+
+  test('a call after a quiet period is a new leading edge', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { debounceTime: 100, debounceLeading: true });
+
+    getData('a');
+    await jest.advanceTimersByTimeAsync(150);
+    getData('b');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  test('works per parameters with DIMENSIONS.PARAMETERS', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, {
+      debounceTime: 100,
+      debounceLeading: true,
+      debounceDimension: DIMENSIONS.PARAMETERS,
+    });
+
+    getData('a');
+    getData('b');
+    getData('a');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['a', 'b']);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(calls).toEqual(['a', 'b', 'a']);
+  });
+});
+
+describe('debounceMaxWait', () => {
+  test('a steady stream of calls still executes every maxWait ms', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { debounceTime: 100, debounceMaxWait: 250 });
+
+    const results: Promise<any>[] = [];
+    for (let i = 0; i < 10; i++) {
+      results.push(getData(`${i}`));
+      await jest.advanceTimersByTimeAsync(50);
+    }
+    // calls at 0..450ms: maxWait forces executions at 250ms and 500ms
+    expect(calls).toEqual(['4', '9']);
+
+    const res = await Promise.all(results);
+    expect(res.slice(0, 5).every(r => r === 'res-4')).toBe(true);
+    expect(res.slice(5).every(r => r === 'res-9')).toBe(true);
+  });
+
+  test('with debounceLeading the burst is measured from the leading call', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, {
+      debounceTime: 100,
+      debounceMaxWait: 150,
+      debounceLeading: true,
+      debounceDimension: DIMENSIONS.PARAMETERS,
+    });
+
+    getData('a');
+    await jest.advanceTimersByTimeAsync(80);
+    getData('a');
+    await jest.advanceTimersByTimeAsync(60);
+    expect(calls).toEqual(['a']);
+    await jest.advanceTimersByTimeAsync(10);
+    expect(calls).toEqual(['a', 'a']);
+  });
+});
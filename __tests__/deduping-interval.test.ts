@@ -0,0 +1,110 @@
+import { createAsync } from '../src';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('dedupingInterval', () => {
+  test('starts one background update per key per interval', async () => {
+    let version = 0;
+    const fn = jest.fn(async (id: string) => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return `${id} v${++version}`;
+    });
+    const onBackgroundUpdateStart = jest.fn();
+    const onBackgroundUpdate = jest.fn();
+    const getUser = createAsync(fn, {
+      ttl: 10_000,
+      swr: true,
+      dedupingInterval: 1000,
+      onBackgroundUpdateStart,
+      onBackgroundUpdate,
+    });
+
+    const first = getUser('1');
+    await jest.advanceTimersByTimeAsync(50);
+    await first;
+
+    const hits = await Promise.all(Array.from({ length: 10 }, () => getUser('1')));
+    expect(hits).toEqual(Array(10).fill('1 v1'));
+    await jest.advanceTimersByTimeAsync(50);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onBackgroundUpdateStart).toHaveBeenCalledTimes(1);
+    expect(onBackgroundUpdate).toHaveBeenCalledTimes(1);
+    expect(onBackgroundUpdate).toHaveBeenCalledWith('1 v2', undefined);
+
+    // still within the interval, although the update has settled
+    await expect(getUser('1')).resolves.toBe('1 v2');
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    // other keys are not affected
+    const other = getUser('2');
+    await jest.advanceTimersByTimeAsync(50);
+    await other;
+    await getUser('2');
+    expect(fn).toHaveBeenCalledTimes(4);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await getUser('1');
+    expect(fn).toHaveBeenCalledTimes(5);
+  });
+
+  test('an update lasting longer than the interval is still shared', async () => {
+    const fn = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      return 'data';
+    });
+    const getData = createAsync(fn, { ttl: 10_000, swr: true, dedupingInterval: 100 });
+
+    const first = getData();
+    await jest.advanceTimersByTimeAsync(500);
+    await first;
+
+    await getData();
+    await jest.advanceTimersByTimeAsync(200);
+    await getData();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('applies to keys revalidated after invalidate', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 10_000, dedupingInterval: 1000 });
+
+    await getData();
+    getData.invalidate();
+    await Promise.all([getData(), getData(), getData()]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('functions sharing a cache share their background updates', async () => {
+    const fn = jest.fn(async () => 'data');
+    const id = `deduping-${Date.now()}`;
+    const onBackgroundUpdateA = jest.fn();
+    const onBackgroundUpdateB = jest.fn();
+    const getA = createAsync(fn, { id, ttl: 10_000, swr: true, dedupingInterval: 1000, onBackgroundUpdate: onBackgroundUpdateA });
+    const getB = createAsync(fn, { id, ttl: 10_000, swr: true, dedupingInterval: 1000, onBackgroundUpdate: onBackgroundUpdateB });
+
+    await getA();
+    await Promise.all([getA(), getB(), getB()]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+    // each function hears about the shared update once
+    expect(onBackgroundUpdateA).toHaveBeenCalledTimes(1);
+    expect(onBackgroundUpdateB).toHaveBeenCalledTimes(1);
+  });
+
+  test('without it every call starts a background update', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 10_000, swr: true });
+
+    await getData();
+    await Promise.all([getData(), getData()]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+});
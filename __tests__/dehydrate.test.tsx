@@ -0,0 +1,155 @@
+import '@testing-library/jest-dom/extend-expect';
+import { render, screen, act } from '@testing-library/react';
+import React from 'react';
+import {
+  createAsync,
+  dehydrate,
+  hydrate,
+  IdCacheManager,
+  parseWithTypes,
+  stringifyWithTypes,
+  useAsync,
+} from '../src';
+import type { DehydratableCacheManager, DehydratedEntries, DehydratedState } from '../src';
+
+const uniqueId = (() => {
+  let n = 0;
+  return (label: string) => `${label}-${++n}-${Date.now()}`;
+})();
+
+/** Send a snapshot over the wire, as the server would in its HTML. */
+function transfer(state: DehydratedState): DehydratedState {
+  return parseWithTypes(stringifyWithTypes(state));
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  IdCacheManager.clearAll();
+  jest.restoreAllMocks();
+});
+
+describe('dehydrate / hydrate', () => {
+  test('round-trips the entries of an id, keeping their age', async () => {
+    const id = uniqueId('round-trip');
+    const getUser = createAsync(async (userId: string) => ({ userId, at: new Date(0) }), { id, ttl: 60_000 });
+    await getUser('a');
+
+    jest.advanceTimersByTime(100);
+    const state = transfer(dehydrate({ ids: [id] }));
+    IdCacheManager.clearAll();
+    hydrate(state);
+
+    jest.advanceTimersByTime(50);
+    const [key] = Object.keys(state.ids[id].entries);
+    const hit = IdCacheManager.forId(id, 60_000).get(key);
+    expect(hit).toEqual({ value: { userId: 'a', at: new Date(0) }, age: 150 });
+  });
+
+  test('registers ids that are not registered yet, with the exported settings', () => {
+    const id = uniqueId('register');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    hydrate({
+      ids: { [id]: { ttl: 1000, cacheCapacity: 10, maxCacheBytes: -1, entries: { k: { data: 1, timestamp: Date.now() } } } },
+      managers: {},
+    });
+
+    expect(IdCacheManager.forId(id, 1000, 10).get('k')).toMatchObject({ value: 1 });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('leaves out other ids, empty ids and expired entries', () => {
+    const keptId = uniqueId('kept');
+    const otherId = uniqueId('other');
+    const emptyId = uniqueId('empty');
+    const kept = IdCacheManager.forId(keptId, 100);
+    IdCacheManager.forId(otherId, 100).set('k', 1);
+    IdCacheManager.forId(emptyId, 100);
+    kept.set('old', 1);
+    jest.advanceTimersByTime(60);
+    kept.set('new', 2);
+    jest.advanceTimersByTime(60);
+
+    const state = dehydrate({ ids: [keptId, emptyId] });
+    expect(Object.keys(state.ids)).toEqual([keptId]);
+    expect(Object.keys(state.ids[keptId].entries)).toEqual(['new']);
+    expect(Object.keys(dehydrate().ids)).not.toContain(emptyId);
+  });
+
+  test('keeps entries cached on the client after the snapshot was taken', () => {
+    const id = uniqueId('newer');
+    const m = IdCacheManager.forId<string>(id, 60_000);
+    const timestamp = Date.now();
+    jest.advanceTimersByTime(10);
+    m.set('k', 'client');
+
+    hydrate({ ids: { [id]: { ttl: 60_000, cacheCapacity: -1, maxCacheBytes: -1, entries: { k: { data: 'server', timestamp } } } }, managers: {} });
+    expect(m.get('k')).toMatchObject({ value: 'client' });
+  });
+
+  test('custom managers opt in by name', () => {
+    const store: DehydratedEntries = {};
+    const custom: DehydratableCacheManager = {
+      dehydrate: () => ({ k: { data: 'v', timestamp: 1 } }),
+      hydrate: jest.fn((entries: DehydratedEntries) => Object.assign(store, entries)),
+    };
+
+    const state = transfer(dehydrate({ managers: { custom } }));
+    expect(state.managers).toEqual({ custom: { k: { data: 'v', timestamp: 1 } } });
+
+    hydrate(state);
+    expect(custom.hydrate).not.toHaveBeenCalled();
+    hydrate(state, { managers: { custom } });
+    expect(store).toEqual({ k: { data: 'v', timestamp: 1 } });
+  });
+});
+
+describe('useAsync with hydrated data', () => {
+  async function serverRender(id: string) {
+    const getUser = createAsync(async () => 'server', { id, ttl: 60_000 });
+    await getUser();
+    const state = transfer(dehydrate({ ids: [id] }));
+    IdCacheManager.clearAll();
+    return state;
+  }
+
+  test('renders server data immediately, without fetching while fresh', async () => {
+    const id = uniqueId('hook-fresh');
+    hydrate(await serverRender(id));
+    const fetchUser = jest.fn(async () => 'client');
+
+    const App = () => {
+      const { loading, data } = useAsync(fetchUser, { id, ttl: 60_000, staleTime: 1000 });
+      return <span>{loading ? 'loading' : data}</span>;
+    };
+    render(<App />);
+
+    expect(screen.getByText('server')).toBeInTheDocument();
+    await act(() => jest.advanceTimersByTimeAsync(10));
+    expect(screen.getByText('server')).toBeInTheDocument();
+    expect(fetchUser).not.toHaveBeenCalled();
+  });
+
+  test('revalidates in the background once older than staleTime', async () => {
+    const id = uniqueId('hook-stale');
+    const state = await serverRender(id);
+    jest.advanceTimersByTime(2000);
+    hydrate(state);
+    const fetchUser = jest.fn(async () => 'client');
+
+    const App = () => {
+      const { loading, data } = useAsync(fetchUser, { id, ttl: 60_000, staleTime: 1000, swr: true });
+      return <span>{loading ? 'loading' : data}</span>;
+    };
+    render(<App />);
+
+    expect(screen.getByText('server')).toBeInTheDocument();
+    await act(() => jest.advanceTimersByTimeAsync(10));
+    expect(screen.getByText('client')).toBeInTheDocument();
+    expect(fetchUser).toHaveBeenCalledTimes(1);
+  });
+});
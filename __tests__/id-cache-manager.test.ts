@@ -67,24 +67,34 @@ describe('IdCacheManager — caching semantics', () => {
     const m = IdCacheManager.forId<number>(id, 50);
 
     m.set('k', 1);
-    expect(m.get('k')).toEqual({ value: 1 });
+    expect(m.get('k')).toMatchObject({ value: 1 });
 
     await sleep(80);
     expect(m.get('k')).toBeNull();
   });
 
+  test('get reports the age of the entry', async () => {
+    const m = IdCacheManager.forId<number>(uniqueId('age'), 1000);
+
+    m.set('k', 1);
+    await sleep(30);
+    const hit = m.get('k')!;
+    expect(hit.value).toBe(1);
+    expect(hit.age).toBeGreaterThanOrEqual(25);
+  });
+
   test('cacheCapacity-only cache uses LRU and never expires by time', async () => {
     const id = uniqueId('cap-only');
     const m = IdCacheManager.forId<number>(id, -1, 2);
 
     m.set('a', 1);
     m.set('b', 2);
-    expect(m.get('a')).toEqual({ value: 1 });
-    expect(m.get('b')).toEqual({ value: 2 });
+    expect(m.get('a')).toMatchObject({ value: 1 });
+    expect(m.get('b')).toMatchObject({ value: 2 });
 
     // ttl is off, so even waiting doesn't matter
     await sleep(20);
-    expect(m.get('a')).toEqual({ value: 1 });
+    expect(m.get('a')).toMatchObject({ value: 1 });
   });
 
   test('LRU eviction on cacheCapacity overflow', () => {
@@ -97,9 +107,29 @@ describe('IdCacheManager — caching semantics', () => {
     m.get('a');
     m.set('c', 3);
 
-    expect(m.get('a')).toEqual({ value: 1 });
+    expect(m.get('a')).toMatchObject({ value: 1 });
     expect(m.get('b')).toBeNull();
-    expect(m.get('c')).toEqual({ value: 3 });
+    expect(m.get('c')).toMatchObject({ value: 3 });
+  });
+
+  test('LRU eviction on maxCacheBytes overflow, with a custom sizeOf', () => {
+    const id = uniqueId('bytes');
+    const m = IdCacheManager.forId<string>(id, -1, -1, 10, value => value.length);
+
+    m.set('a', 'xxxx');
+    m.set('b', 'xxxx');
+    m.get('a');
+    m.set('c', 'xxxxxx');
+
+    expect(m.get('a')).toMatchObject({ value: 'xxxx' });
+    expect(m.get('b')).toBeNull();
+    expect(m.get('c')).toMatchObject({ value: 'xxxxxx' });
+
+    // larger than maxCacheBytes on its own: not cached, nothing evicted
+    m.set('d', 'x'.repeat(11));
+    expect(m.get('d')).toBeNull();
+    expect(m.get('a')).toMatchObject({ value: 'xxxx' });
+    expect(m.get('c')).toMatchObject({ value: 'xxxxxx' });
   });
 
   test('set with same value does not refresh timestamp (dedupe)', async () => {
@@ -125,7 +155,7 @@ describe('IdCacheManager — caching semantics', () => {
 
     m.clearExpired();
     expect(m.get('old')).toBeNull();
-    expect(m.get('fresh')).toEqual({ value: 2 });
+    expect(m.get('fresh')).toMatchObject({ value: 2 });
   });
 
   test('delete(key) removes a single entry; clear() drops all', () => {
@@ -136,7 +166,7 @@ describe('IdCacheManager — caching semantics', () => {
     m.set('b', 2);
     m.delete('a');
     expect(m.get('a')).toBeNull();
-    expect(m.get('b')).toEqual({ value: 2 });
+    expect(m.get('b')).toMatchObject({ value: 2 });
 
     m.clear();
     expect(m.get('b')).toBeNull();
@@ -156,7 +186,7 @@ describe('IdCacheManager.clear / clearAll — bulk reset', () => {
     const same = IdCacheManager.forId<number>(id, 1000);
     expect(same).toBe(m);
     same.set('k', 8);
-    expect(same.get('k')).toEqual({ value: 8 });
+    expect(same.get('k')).toMatchObject({ value: 8 });
   });
 
   test('clearAll() wipes every id but does not touch config', () => {
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+// fake-indexeddb relies on structuredClone, which jsdom does not provide.
+import 'fake-indexeddb/auto';
+import { createAsync, IndexedDBCacheManager } from '../src';
+
+let now = 0;
+let indexedDB: IDBFactory;
+
+beforeEach(() => {
+  now = 1000;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  // an empty in-memory IndexedDB for each test
+  indexedDB = new IDBFactory();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function openDatabase(name = 'great-async'): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('IndexedDBCacheManager', () => {
+  test('stores entries, with their age', async () => {
+    const m = new IndexedDBCacheManager<{ name: string; ids: number[] }>({ indexedDB });
+    const value = { name: 'Ann', ids: [1, 2] };
+
+    await m.set('k', value);
+    now += 30;
+    const hit = await m.get('k');
+    expect(hit).toEqual({ value, age: 30 });
+    expect(await m.get('missing')).toBeNull();
+
+    await m.delete('k');
+    expect(await m.get('k')).toBeNull();
+
+    await m.set('a', value);
+    await m.set('b', value);
+    await m.clear();
+    expect(await m.get('a')).toBeNull();
+    expect(await m.get('b')).toBeNull();
+  });
+
+  test('entries survive the manager, like a page reload', async () => {
+    await new IndexedDBCacheManager({ indexedDB, namespace: 'users' }).set('k', 'v');
+
+    const reloaded = new IndexedDBCacheManager({ indexedDB, namespace: 'users' });
+    expect(await reloaded.get('k')).toMatchObject({ value: 'v' });
+  });
+
+  test('each namespace gets its own object store, added by upgrading the database', async () => {
+    const users = new IndexedDBCacheManager({ indexedDB, namespace: 'users' });
+    const posts = new IndexedDBCacheManager({ indexedDB, namespace: 'posts' });
+
+    await users.set('k', 'user');
+    await posts.set('k', 'post');
+    // the open users connection made way for the upgrade, and reconnects
+    await users.set('other', 'user');
+
+    expect(await users.get('k')).toMatchObject({ value: 'user' });
+    expect(await posts.get('k')).toMatchObject({ value: 'post' });
+    await posts.clear();
+    expect(await users.get('other')).toMatchObject({ value: 'user' });
+
+    const db = await openDatabase();
+    expect([...db.objectStoreNames].sort()).toEqual(['posts', 'users']);
+    expect(db.version).toBe(2);
+    db.close();
+  });
+
+  test('drops the entries of another version', async () => {
+    const v1 = new IndexedDBCacheManager({ indexedDB, version: 1 });
+    await v1.set('k', { name: 'Ann' });
+
+    const v2 = new IndexedDBCacheManager({ indexedDB, version: 2 });
+    expect(await v2.get('k')).toBeNull();
+  });
+
+  test('migrate upgrades the entries of an older version', async () => {
+    const v1 = new IndexedDBCacheManager({ indexedDB, version: 1 });
+    await v1.set('ann', { name: 'Ann' });
+    await v1.set('bob', { name: 'Bob' });
+
+    const migrate = jest.fn((data: any) =>
+      data.name === 'Bob' ? undefined : { firstName: data.name });
+    const v2 = new IndexedDBCacheManager({ indexedDB, version: 2, migrate });
+
+    expect(await v2.get('ann')).toMatchObject({ value: { firstName: 'Ann' } });
+    expect(await v2.get('bob')).toBeNull();
+    expect(migrate).toHaveBeenCalledWith({ name: 'Ann' }, 1);
+    expect(migrate).toHaveBeenCalledTimes(2);
+  });
+
+  test('ttl expires entries, and clearExpired sweeps them', async () => {
+    const m = new IndexedDBCacheManager({ indexedDB, ttl: 100 });
+    await m.set('a', 1);
+    await m.set('b', 2);
+    now += 50;
+    await m.set('c', 3);
+
+    now += 60;
+    expect(await m.get('a')).toBeNull();
+    await m.clearExpired();
+
+    const db = await openDatabase();
+    const keys = await new Promise<IDBValidKey[]>((resolve) => {
+      const request = db.transaction('default').objectStore('default').getAllKeys();
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(keys).toEqual(['c']);
+    db.close();
+  });
+
+  test('cacheCapacity evicts the least recently used entries', async () => {
+    const m = new IndexedDBCacheManager({ indexedDB, cacheCapacity: 2 });
+    await m.set('a', 1);
+    await m.set('b', 2);
+    await m.get('a');
+    await m.set('c', 3);
+
+    expect(await m.get('b')).toBeNull();
+    expect(await m.get('a')).toMatchObject({ value: 1 });
+    expect(await m.get('c')).toMatchObject({ value: 3 });
+
+    // overwriting an entry does not evict another one
+    await m.set('c', 4);
+    expect(await m.get('a')).toMatchObject({ value: 1 });
+  });
+
+  test('maxCacheBytes evicts the least recently used entries', async () => {
+    const m = new IndexedDBCacheManager<string>({ indexedDB, maxCacheBytes: 10, sizeOf: value => value.length });
+    await m.set('a', 'xxxx');
+    await m.set('b', 'xxxx');
+    await m.get('a');
+    await m.set('c', 'xxxxxx');
+
+    expect(await m.get('b')).toBeNull();
+    expect(await m.get('a')).toMatchObject({ value: 'xxxx' });
+    expect(await m.get('c')).toMatchObject({ value: 'xxxxxx' });
+
+    // larger than maxCacheBytes on its own: not cached, nothing evicted
+    await m.set('d', 'x'.repeat(11));
+    expect(await m.get('d')).toBeNull();
+    expect(await m.get('a')).toMatchObject({ value: 'xxxx' });
+  });
+
+  test('caches nothing without IndexedDB', async () => {
+    const m = new IndexedDBCacheManager({ indexedDB: null });
+    await m.set('k', 'v');
+    expect(await m.get('k')).toBeNull();
+    await expect(m.clear()).resolves.toBeUndefined();
+  });
+
+  test('backs createAsync', async () => {
+    const cacheManager = new IndexedDBCacheManager({ indexedDB, namespace: 'double' });
+    const fn = jest.fn(async (n: number) => n * 2);
+    const double = createAsync(fn, { cacheManager });
+
+    expect(await double(2)).toBe(4);
+    // the cache write is not awaited by createAsync
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await double(2)).toBe(4);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
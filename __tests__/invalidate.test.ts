@@ -0,0 +1,116 @@
+import { createAsync, IdCacheManager } from '../src';
+import { StaleKeys } from '../src/stale-keys';
+
+afterEach(() => {
+  IdCacheManager.clearAll();
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('invalidate', () => {
+  test('the next call returns the stale value and revalidates in the background', async () => {
+    let n = 0;
+    const onBackgroundUpdate = jest.fn();
+    const getData = createAsync(async () => ++n, { ttl: 1000, onBackgroundUpdate });
+
+    await getData();
+    await expect(getData()).resolves.toBe(1);
+    expect(n).toBe(1);
+
+    getData.invalidate();
+    await expect(getData()).resolves.toBe(1);
+    await flush();
+    expect(n).toBe(2);
+    expect(onBackgroundUpdate).toHaveBeenCalledWith(2, undefined);
+
+    // fresh again: answered from the cache
+    await expect(getData()).resolves.toBe(2);
+    await flush();
+    expect(n).toBe(2);
+  });
+
+  test('only the given params are marked stale', async () => {
+    const fn = jest.fn(async (v: string) => v);
+    const getData = createAsync(fn, { ttl: 1000 });
+
+    await getData('a');
+    await getData('b');
+    getData.invalidate('a');
+    await getData('a');
+    await getData('b');
+    await flush();
+    expect(fn.mock.calls).toEqual([['a'], ['b'], ['a']]);
+  });
+
+  test('invalidating everything spares values written afterwards', async () => {
+    const fn = jest.fn(async (v: string) => v);
+    const getData = createAsync(fn, { ttl: 1000 });
+
+    await getData('a');
+    await getData('b');
+    getData.invalidate();
+    getData.setCache(['a'], 'A');
+
+    await expect(getData('a')).resolves.toBe('A');
+    await expect(getData('b')).resolves.toBe('b');
+    await flush();
+    expect(fn.mock.calls).toEqual([['a'], ['b'], ['b']]);
+  });
+
+  test('a failed revalidation keeps the key stale', async () => {
+    let fail = false;
+    let n = 0;
+    const getData = createAsync(async () => {
+      n++;
+      if (fail) throw new Error('fail');
+      return 'ok';
+    }, { ttl: 1000 });
+
+    await getData();
+    fail = true;
+    getData.invalidate();
+    await expect(getData()).resolves.toBe('ok');
+    await flush();
+    fail = false;
+    await expect(getData()).resolves.toBe('ok');
+    await flush();
+    expect(n).toBe(3);
+  });
+
+  test('is shared by functions using the same id', async () => {
+    const id = `invalidate-${Date.now()}`;
+    const fn = jest.fn(async () => 'fresh');
+    const reader = createAsync(fn, { id, ttl: 1000 });
+    const writer = createAsync(async () => 'other', { id, ttl: 1000 });
+
+    await reader();
+    writer.invalidate();
+    await reader();
+    await flush();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('forgets the marks of evicted and cleared entries', async () => {
+    const id = `invalidate-forget-${Date.now()}`;
+    const getData = createAsync(async (v: number) => v, { id, ttl: 1000, cacheCapacity: 2 });
+    const staleKeys = StaleKeys.forManager(IdCacheManager.forId(id, 1000, 2));
+
+    await getData(0);
+    getData.invalidate();
+    for (let i = 1; i <= 10; i++) {
+      await getData(i);
+    }
+    // only the 2 cached keys are still marked
+    expect(staleKeys['fresh'].size).toBe(2);
+
+    for (let i = 11; i <= 20; i++) {
+      await getData(i);
+      getData.invalidate(i);
+    }
+    expect(staleKeys['stale'].size).toBe(2);
+
+    getData.clearCache();
+    expect(staleKeys['fresh'].size).toBe(0);
+    expect(staleKeys['stale'].size).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { createAsync } from '../src';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('lifecycle callbacks', () => {
+  test('onSuccess and onSettled receive the data and params', async () => {
+    const onSuccess = jest.fn();
+    const onError = jest.fn();
+    const onSettled = jest.fn();
+    const getData = createAsync(async (v: string) => `res-${v}`, { onSuccess, onError, onSettled });
+
+    await getData('a');
+    expect(onSuccess).toHaveBeenCalledWith('res-a', ['a']);
+    expect(onSettled).toHaveBeenCalledWith('res-a', undefined, ['a']);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  test('onError is called once retries are exhausted, onRetry before each retry', async () => {
+    const onError = jest.fn();
+    const onSettled = jest.fn();
+    const onRetry = jest.fn();
+    const error = new Error('fail');
+    const getData = createAsync(async () => { throw error; }, {
+      retryCount: 2,
+      onError,
+      onSettled,
+      onRetry,
+    });
+
+    await expect(getData()).rejects.toBe(error);
+    expect(onRetry.mock.calls).toEqual([[error, 1], [error, 2]]);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error, []);
+    expect(onSettled).toHaveBeenCalledWith(undefined, error, []);
+  });
+
+  test('debounced calls sharing an execution report it once', async () => {
+    const onSuccess = jest.fn();
+    const onSettled = jest.fn();
+    const getData = createAsync(async (v: string) => `res-${v}`, {
+      debounceTime: 100,
+      onSuccess,
+      onSettled,
+    });
+
+    const all = Promise.all([getData('a'), getData('b'), getData('c')]);
+    await jest.advanceTimersByTimeAsync(100);
+    await all;
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(onSuccess).toHaveBeenCalledWith('res-c', ['c']);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  test('single calls sharing an execution report it once', async () => {
+    const onSuccess = jest.fn();
+    const getData = createAsync(async () => 'ok', { single: true, onSuccess });
+
+    await Promise.all([getData(), getData(), getData()]);
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  test('onCacheHit is called instead of onSuccess for cached calls', async () => {
+    const onSuccess = jest.fn();
+    const onCacheHit = jest.fn();
+    const getData = createAsync(async (v: string) => `res-${v}`, { ttl: 1000, onSuccess, onCacheHit });
+
+    await getData('a');
+    expect(onCacheHit).not.toHaveBeenCalled();
+    await getData('a');
+    expect(onCacheHit).toHaveBeenCalledWith('["a"]', 'res-a');
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  test('an SWR background update is an execution of its own', async () => {
+    const onSuccess = jest.fn();
+    const onCacheHit = jest.fn();
+    let n = 0;
+    const getData = createAsync(async () => ++n, { ttl: 1000, swr: true, onSuccess, onCacheHit });
+
+    await getData();
+    await expect(getData()).resolves.toBe(1);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onCacheHit).toHaveBeenCalledWith('[]', 1);
+    expect(onSuccess.mock.calls).toEqual([[1, []], [2, []]]);
+  });
+});
@@ -0,0 +1,66 @@
+import { createAsync, defaultSizeOf, IdCacheManager } from '../src';
+
+afterEach(() => {
+  IdCacheManager.clearAll();
+});
+
+test('defaultSizeOf is the length of the JSON', () => {
+  expect(defaultSizeOf({ a: 1 })).toBe(7);
+  expect(defaultSizeOf(undefined)).toBe(0);
+  const cyclic: any = {};
+  cyclic.self = cyclic;
+  expect(defaultSizeOf(cyclic)).toBe(0);
+});
+
+describe('createAsync maxCacheBytes', () => {
+  test('enables caching on its own, evicting the least recently used entries', async () => {
+    const fn = jest.fn(async (n: number) => 'x'.repeat(n));
+    // JSON adds the two quotes
+    const getText = createAsync(fn, { maxCacheBytes: 20 });
+
+    await getText(8);
+    await getText(6);
+    await getText(8);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    // 10 + 8 + 8 > 20: the entry for 6 is evicted
+    await getText(4);
+    await getText(8);
+    expect(fn).toHaveBeenCalledTimes(3);
+    await getText(6);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  test('does not cache a value larger than the limit, nor evict for it', async () => {
+    const fn = jest.fn(async (n: number) => 'x'.repeat(n));
+    const getText = createAsync(fn, { maxCacheBytes: 20 });
+
+    await getText(2);
+    await getText(4);
+    await getText(30);
+    await getText(30);
+    expect(fn).toHaveBeenCalledTimes(4);
+
+    await getText(2);
+    await getText(4);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  test('applies to id caches, with a custom sizeOf', async () => {
+    const fn = jest.fn(async (n: number) => new Array(n).fill(0));
+    const id = `max-cache-bytes-${Date.now()}`;
+    const getList = createAsync(fn, { id, maxCacheBytes: 10, sizeOf: list => list.length });
+
+    await getList(6);
+    await getList(4);
+    await getList(6);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    // 6 + 4 + 3 > 10: the entry for 4 is evicted
+    await getList(3);
+    await getList(6);
+    expect(fn).toHaveBeenCalledTimes(3);
+    await getList(4);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,94 @@
+import { createAsync, AsyncMiddleware } from '../src';
+
+describe('use', () => {
+  test('custom middlewares run around fn with the call context', async () => {
+    const seen: any[] = [];
+    const logger: AsyncMiddleware = async (ctx, next) => {
+      seen.push({ params: ctx.params, key: ctx.key, attempt: ctx.attempt });
+      const res = await next();
+      seen.push(res);
+      return res;
+    };
+    const getData = createAsync(async (v: string) => `res-${v}`, { use: [logger] });
+
+    await expect(getData('a')).resolves.toBe('res-a');
+    expect(seen).toEqual([{ params: ['a'], key: '["a"]', attempt: 1 }, 'res-a']);
+  });
+
+  test('an array runs once per attempt, inside retry', async () => {
+    const attempts: number[] = [];
+    let times = 0;
+    const getData = createAsync(async () => {
+      if (++times < 3) throw new Error('fail');
+      return 'ok';
+    }, {
+      retryCount: 3,
+      use: [(ctx, next) => {
+        attempts.push(ctx.attempt);
+        return next();
+      }],
+    });
+
+    await expect(getData()).resolves.toBe('ok');
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  test('a middleware can short-circuit or patch the context', async () => {
+    const fn = jest.fn(async (v: number) => v * 2);
+    const getData = createAsync(fn, {
+      use: [(ctx, next) => {
+        if (ctx.params[0] < 0) return Promise.resolve(0);
+        return next({ params: [ctx.params[0] + 1] as [number] });
+      }],
+    });
+
+    await expect(getData(-1)).resolves.toBe(0);
+    expect(fn).not.toHaveBeenCalled();
+    await expect(getData(1)).resolves.toBe(4);
+    expect(fn).toHaveBeenCalledWith(2);
+  });
+
+  test('a middleware throwing synchronously rejects the call', async () => {
+    const getData = createAsync(async () => 'ok', {
+      use: [() => { throw new Error('boom'); }],
+    });
+    await expect(getData()).rejects.toThrow('boom');
+  });
+
+  test('built-ins are handed over by name and can be reordered', async () => {
+    const names: string[] = [];
+    const order: string[] = [];
+    const getData = createAsync(async () => 'ok', {
+      ttl: 1000,
+      use: (builtins) => {
+        names.push(...builtins.map(m => m.middlewareName));
+        const trace: AsyncMiddleware = (ctx, next) => {
+          order.push('trace');
+          return next();
+        };
+        // tracing outside the cache sees cache hits as well
+        return [trace, ...builtins];
+      },
+    });
+
+    expect(names).toEqual([
+      'cache', 'single', 'throttle', 'debounce', 'beforeRun', 'circuitBreaker', 'cacheWrite',
+      'state', 'pool', 'lifecycle', 'timeout', 'takeLatest', 'retry', 'rateLimit', 'attemptTimeout',
+    ]);
+    await getData();
+    await getData();
+    expect(order).toEqual(['trace', 'trace']);
+  });
+
+  test('built-ins can be replaced or left out', async () => {
+    const fn = jest.fn(async () => 'ok');
+    const getData = createAsync(fn, {
+      ttl: 1000,
+      use: builtins => builtins.filter(m => m.middlewareName !== 'cache'),
+    });
+
+    await getData();
+    await getData();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { createAsync } from '../src';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const jobStatus = () => {
+  let progress = 0;
+  return jest.fn(async (id: string) => {
+    progress += 50;
+    return { id, progress };
+  });
+};
+
+describe('fnProxy.poll', () => {
+  test('calls the function every interval until `until` is satisfied', async () => {
+    const fn = jobStatus();
+    const getJob = createAsync(fn);
+    const onResult = jest.fn();
+
+    const handle = getJob.poll(['job-1'], { interval: 100, until: job => job.progress >= 100, onResult });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onResult).toHaveBeenCalledWith({ id: 'job-1', progress: 50 }, 1);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(onResult).toHaveBeenLastCalledWith({ id: 'job-1', progress: 100 }, 2);
+    expect(handle.stopped).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('can be iterated with for await', async () => {
+    const getJob = createAsync(jobStatus());
+    const handle = getJob.poll(['job-1'], { interval: 100, until: job => job.progress >= 150 });
+
+    const progress: number[] = [];
+    const done = (async () => {
+      for await (const job of handle) {
+        progress.push(job.progress);
+      }
+    })();
+    await jest.advanceTimersByTimeAsync(300);
+    await done;
+    expect(progress).toEqual([50, 100, 150]);
+  });
+
+  test('breaking out of the iteration stops polling', async () => {
+    const fn = jobStatus();
+    const handle = createAsync(fn).poll(['job-1'], { interval: 100 });
+
+    const done = (async () => {
+      for await (const job of handle) {
+        if (job.progress >= 100) break;
+      }
+    })();
+    await jest.advanceTimersByTimeAsync(100);
+    await done;
+    expect(handle.stopped).toBe(true);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('stops after maxAttempts', async () => {
+    const fn = jobStatus();
+    const handle = createAsync(fn).poll(['job-1'], { interval: 100, maxAttempts: 3 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(handle.stopped).toBe(true);
+  });
+
+  test('stop ends polling', async () => {
+    const fn = jobStatus();
+    const handle = createAsync(fn).poll(['job-1'], { interval: 100, immediate: false });
+
+    await jest.advanceTimersByTimeAsync(250);
+    handle.stop();
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('an error stops polling and is thrown by the iteration', async () => {
+    const error = new Error('failed');
+    const fn = jest.fn().mockResolvedValueOnce(1).mockRejectedValue(error);
+    const onError = jest.fn();
+    const handle = createAsync(fn as () => Promise<number>).poll([], { interval: 100, onError });
+
+    const results: number[] = [];
+    const done = (async () => {
+      for await (const result of handle) {
+        results.push(result);
+      }
+    })();
+    const caught = done.catch(e => e);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(await caught).toBe(error);
+    expect(results).toEqual([1]);
+    expect(onError).toHaveBeenCalledWith(error, 2);
+    expect(handle.stopped).toBe(true);
+  });
+
+  test('stopOnError: false keeps polling', async () => {
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new Error('failed'))
+      .mockResolvedValue('ok');
+    const onResult = jest.fn();
+    createAsync(fn as () => Promise<string>).poll([], {
+      interval: 100,
+      stopOnError: false,
+      maxAttempts: 2,
+      onResult,
+    });
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(onResult).toHaveBeenCalledWith('ok', 2);
+  });
+
+  test('refreshes the cache instead of reading it', async () => {
+    const fn = jobStatus();
+    const getJob = createAsync(fn, { ttl: 10_000 });
+    await getJob('job-1');
+
+    getJob.poll(['job-1'], { interval: 100, maxAttempts: 1 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await expect(getJob('job-1')).resolves.toEqual({ id: 'job-1', progress: 100 });
+  });
+});
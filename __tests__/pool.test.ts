@@ -0,0 +1,138 @@
+import { createAsync, createPool, AbortError, DIMENSIONS } from '../src';
+import { sleep } from '../src/utils';
+
+const createTracker = () => {
+  let running = 0;
+  let maxRunning = 0;
+  const started: number[] = [];
+  return {
+    started,
+    get maxRunning() {
+      return maxRunning;
+    },
+    fn: async (i: number) => {
+      started.push(i);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(20);
+      running--;
+      return i;
+    },
+  };
+};
+
+describe('Pool', () => {
+  test('runs at most `concurrency` tasks at once', async () => {
+    const pool = createPool({ concurrency: 2 });
+    const tracker = createTracker();
+
+    const res = await Promise.all([1, 2, 3, 4, 5].map(i => pool.run(() => tracker.fn(i))));
+    expect(res).toEqual([1, 2, 3, 4, 5]);
+    expect(tracker.maxRunning).toBe(2);
+    expect(tracker.started).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('queued tasks start by priority, FIFO within the same priority', async () => {
+    const pool = createPool({ concurrency: 1 });
+    const tracker = createTracker();
+
+    await Promise.all([
+      pool.run(() => tracker.fn(1)),
+      pool.run(() => tracker.fn(2)),
+      pool.run(() => tracker.fn(3), { priority: 1 }),
+      pool.run(() => tracker.fn(4), { priority: 1 }),
+      pool.run(() => tracker.fn(5), { priority: -1 }),
+    ]);
+    expect(tracker.started).toEqual([1, 3, 4, 2, 5]);
+  });
+
+  test('aborting a queued task removes it from the queue', async () => {
+    const pool = createPool({ concurrency: 1 });
+    const tracker = createTracker();
+    const controller = new AbortController();
+
+    const p1 = pool.run(() => tracker.fn(1));
+    const p2 = pool.run(() => tracker.fn(2), { signal: controller.signal });
+    expect(pool.pending).toBe(1);
+    controller.abort(new AbortError());
+
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+    expect(pool.pending).toBe(0);
+    await p1;
+    expect(tracker.started).toEqual([1]);
+  });
+
+  test('rejects an invalid concurrency', () => {
+    expect(() => createPool({ concurrency: 0 })).toThrow();
+  });
+});
+
+describe('createAsync with maxConcurrent / pool', () => {
+  test('maxConcurrent limits executions of one function', async () => {
+    const tracker = createTracker();
+    const getData = createAsync(tracker.fn, { maxConcurrent: 3 });
+
+    const res = await Promise.all(Array.from({ length: 10 }, (_, i) => getData(i)));
+    expect(res).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(tracker.maxRunning).toBe(3);
+  });
+
+  test('several functions share a pool', async () => {
+    const pool = createPool({ concurrency: 2 });
+    const tracker = createTracker();
+    const getA = createAsync(tracker.fn, { pool });
+    const getB = createAsync(tracker.fn, { pool });
+
+    await Promise.all([getA(1), getB(2), getA(3), getB(4)]);
+    expect(tracker.maxRunning).toBe(2);
+  });
+
+  test('priority option orders queued calls', async () => {
+    const pool = createPool({ concurrency: 1 });
+    const tracker = createTracker();
+    const getLow = createAsync(tracker.fn, { pool });
+    const getHigh = createAsync(tracker.fn, { pool, priority: ([i]) => i });
+
+    await Promise.all([getLow(0), getLow(1), getHigh(5), getHigh(9)]);
+    expect(tracker.started).toEqual([0, 9, 5, 1]);
+  });
+
+  test('queued calls still dedupe with single', async () => {
+    const tracker = createTracker();
+    const getData = createAsync(tracker.fn, {
+      maxConcurrent: 1,
+      single: true,
+      singleDimension: DIMENSIONS.PARAMETERS,
+    });
+
+    const res = await Promise.all([getData(1), getData(2), getData(2), getData(2)]);
+    expect(res).toEqual([1, 2, 2, 2]);
+    expect(tracker.started).toEqual([1, 2]);
+  });
+
+  test('queued calls read the cache once they get a slot', async () => {
+    const tracker = createTracker();
+    const getData = createAsync(tracker.fn, {
+      maxConcurrent: 1,
+      ttl: 1000,
+    });
+
+    const res = await Promise.all([getData(1), getData(1), getData(2)]);
+    expect(res).toEqual([1, 1, 2]);
+    expect(tracker.started).toEqual([1, 2]);
+  });
+
+  test('aborting a queued call rejects it without running fn', async () => {
+    const tracker = createTracker();
+    const getData = createAsync(tracker.fn, { maxConcurrent: 1 });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    await Promise.resolve();
+    getData.abort(2);
+
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+    await expect(p1).resolves.toBe(1);
+    expect(tracker.started).toEqual([1]);
+  });
+});
@@ -0,0 +1,74 @@
+import { createAsync, IdCacheManager } from '../src';
+import type { CacheManager } from '../src';
+
+afterEach(() => {
+  IdCacheManager.clearAll();
+});
+
+describe('prefetch', () => {
+  test('fills the cache for the next call', async () => {
+    const fn = jest.fn(async (id: string) => `user-${id}`);
+    const getUser = createAsync(fn, { ttl: 1000 });
+
+    await expect(getUser.prefetch('1')).resolves.toBeUndefined();
+    expect(fn).toHaveBeenCalledTimes(1);
+    await expect(getUser('1')).resolves.toBe('user-1');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('is skipped when a fresh value is cached', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 1000 });
+
+    await getData();
+    await getData.prefetch();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('refreshes a stale value', async () => {
+    let n = 0;
+    const getData = createAsync(async () => ++n, { ttl: 1000 });
+
+    await getData();
+    getData.invalidate();
+    await getData.prefetch();
+    expect(n).toBe(2);
+    await expect(getData()).resolves.toBe(2);
+  });
+
+  test('never rejects, reporting errors to onPrefetchError', async () => {
+    const error = new Error('fail');
+    const onPrefetchError = jest.fn();
+    const getData = createAsync(async (v: string) => { throw error; }, { onPrefetchError });
+
+    await expect(getData.prefetch('a')).resolves.toBeUndefined();
+    expect(onPrefetchError).toHaveBeenCalledWith(error, ['a']);
+  });
+
+  test('reports a cache manager throwing synchronously to onPrefetchError', async () => {
+    const error = new Error('broken cache');
+    const cacheManager: CacheManager<string> = {
+      get: () => { throw error; },
+      set: () => {},
+      delete: () => {},
+      clear: () => {},
+    };
+    const onPrefetchError = jest.fn();
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { cacheManager, onPrefetchError });
+
+    let prefetching!: Promise<void>;
+    expect(() => { prefetching = getData.prefetch(); }).not.toThrow();
+    await expect(prefetching).resolves.toBeUndefined();
+    expect(onPrefetchError).toHaveBeenCalledWith(error, []);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  test('shares the execution of a concurrent call with single', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 1000, single: true });
+
+    await Promise.all([getData(), getData.prefetch()]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { createAsync, createRateLimiter, RateLimiter, RateLimitError, AbortError } from '../src';
+
+const uniqueResource = (() => {
+  let n = 0;
+  return (label: string) => `${label}-${++n}-${Date.now()}`;
+})();
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('RateLimiter', () => {
+  test('allows a burst of `limit` calls, then spaces them out', async () => {
+    const limiter = new RateLimiter({ limit: 2, interval: 1000 });
+
+    await expect(limiter.acquire()).resolves.toBe(0);
+    await expect(limiter.acquire()).resolves.toBe(0);
+
+    const third = limiter.acquire();
+    const fourth = limiter.acquire();
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(third).resolves.toBe(500);
+    await expect(fourth).resolves.toBe(1000);
+  });
+
+  test('refills over time', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 100 });
+    await limiter.acquire();
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(limiter.acquire()).resolves.toBe(0);
+  });
+
+  test('rejects with RateLimitError when the wait exceeds maxWait', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 1000 });
+    await limiter.acquire();
+
+    await expect(limiter.acquire({ maxWait: 500 })).rejects.toMatchObject({
+      name: 'RateLimitError',
+      wait: 1000,
+      maxWait: 500,
+    });
+    // the rejected call did not consume a token
+    const next = limiter.acquire();
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBe(1000);
+  });
+
+  test('aborting a waiting call gives its token back', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 1000 });
+    const controller = new AbortController();
+    await limiter.acquire();
+
+    const waiting = limiter.acquire({ signal: controller.signal });
+    controller.abort(new AbortError());
+    await expect(waiting).rejects.toBeInstanceOf(AbortError);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await expect(limiter.acquire()).resolves.toBe(0);
+  });
+
+  test('createRateLimiter returns one limiter per resource', () => {
+    const resource = uniqueResource('shared');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const a = createRateLimiter(resource, { limit: 5, interval: 1000 });
+    const b = createRateLimiter(resource, { limit: 5, interval: 1000 });
+    expect(a).toBe(b);
+    expect(warn).not.toHaveBeenCalled();
+
+    const c = createRateLimiter(resource, { limit: 10, interval: 1000 });
+    expect(c).toBe(a);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/first registered with/);
+
+    expect(createRateLimiter(uniqueResource('other'), { limit: 5, interval: 1000 })).not.toBe(a);
+  });
+});
+
+describe('createAsync with rateLimit', () => {
+  test('calls over budget wait rather than fail', async () => {
+    const started: number[] = [];
+    const getData = createAsync(async (i: number) => {
+      started.push(i);
+      return i;
+    }, {
+      rateLimit: { limit: 2, interval: 1000 },
+    });
+
+    const all = Promise.all([getData(1), getData(2), getData(3)]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([1, 2, 3]);
+    await expect(all).resolves.toEqual([1, 2, 3]);
+  });
+
+  test('functions sharing a limiter share the budget', async () => {
+    const limiter = createRateLimiter(uniqueResource('api'), { limit: 1, interval: 1000 });
+    const started: string[] = [];
+    const getA = createAsync(async () => { started.push('a'); }, { rateLimit: limiter });
+    const getB = createAsync(async () => { started.push('b'); }, { rateLimit: limiter });
+
+    getA();
+    getB();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a']);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  test('onRateLimited and rateLimitMaxWait', async () => {
+    const onRateLimited = jest.fn();
+    const getData = createAsync(async (i: number) => i, {
+      rateLimit: { limit: 1, interval: 1000 },
+      rateLimitMaxWait: 1500,
+      onRateLimited,
+    });
+
+    const p1 = getData(1);
+    const p2 = getData(2);
+    const p3 = getData(3);
+    const assertion = expect(p3).rejects.toBeInstanceOf(RateLimitError);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(p1).resolves.toBe(1);
+    await expect(p2).resolves.toBe(2);
+    await assertion;
+    expect(onRateLimited).toHaveBeenCalledTimes(1);
+    expect(onRateLimited).toHaveBeenCalledWith(1000, [2]);
+  });
+
+  test('every retry attempt takes a token', async () => {
+    let times = 0;
+    const getData = createAsync(async () => {
+      times++;
+      throw new Error('fail');
+    }, {
+      rateLimit: { limit: 1, interval: 1000 },
+      retryStrategy: (error, currentRetryCount) => currentRetryCount <= 2,
+    });
+
+    const assertion = expect(getData()).rejects.toThrow('fail');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(times).toBe(1);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(times).toBe(2);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(times).toBe(3);
+    await assertion;
+  });
+});
@@ -1,4 +1,4 @@
-import { createAsync } from '../src';
+import { createAsync, exponentialBackoff, AbortError } from '../src';
 
 describe('retryStrategy with currentRetryCount parameter', () => {
   it('should pass currentRetryCount as second parameter to retryStrategy', async () => {
@@ -253,3 +253,120 @@ describe('retryStrategy with currentRetryCount parameter', () => {
     }
   });
 });
+
+describe('retryStrategy with delays', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should wait the returned number of ms before retrying', async () => {
+    jest.useFakeTimers();
+    let callCount = 0;
+    const retryFn = createAsync(async () => {
+      callCount++;
+      if (callCount < 3) throw new Error('fail');
+      return 'ok';
+    }, {
+      retryStrategy: () => 1000,
+    });
+
+    const p = retryFn();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(callCount).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(callCount).toBe(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(callCount).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(callCount).toBe(3);
+    await expect(p).resolves.toBe('ok');
+  });
+
+  it('should accept a { retry, delay } object', async () => {
+    jest.useFakeTimers();
+    let callCount = 0;
+    const retryFn = createAsync(async () => {
+      callCount++;
+      throw new Error('fail');
+    }, {
+      retryStrategy: (error, currentRetryCount) => ({ retry: currentRetryCount <= 1, delay: 500 }),
+    });
+
+    const p = retryFn();
+    const assertion = expect(p).rejects.toThrow('fail');
+    await jest.advanceTimersByTimeAsync(499);
+    expect(callCount).toBe(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(callCount).toBe(2);
+    await assertion;
+  });
+
+  it('should cancel the pending delay on abort', async () => {
+    jest.useFakeTimers();
+    let callCount = 0;
+    const retryFn = createAsync(async () => {
+      callCount++;
+      throw new Error('fail');
+    }, {
+      retryStrategy: () => 1000,
+    });
+
+    const p = retryFn();
+    const assertion = expect(p).rejects.toBeInstanceOf(AbortError);
+    await jest.advanceTimersByTimeAsync(100);
+    retryFn.abort();
+    await assertion;
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(callCount).toBe(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('exponentialBackoff', () => {
+  it('should double the delay and respect max', () => {
+    const strategy = exponentialBackoff({ base: 100, max: 350, retries: 4 });
+    expect(strategy(new Error(), 1)).toEqual({ retry: true, delay: 100 });
+    expect(strategy(new Error(), 2)).toEqual({ retry: true, delay: 200 });
+    expect(strategy(new Error(), 3)).toEqual({ retry: true, delay: 350 });
+    expect(strategy(new Error(), 4)).toEqual({ retry: true, delay: 350 });
+    expect(strategy(new Error(), 5)).toBe(false);
+  });
+
+  it('should randomize delays with jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(exponentialBackoff({ base: 100, jitter: true })(new Error(), 2))
+      .toEqual({ retry: true, delay: 100 });
+    expect(exponentialBackoff({ base: 100, jitter: 0.5 })(new Error(), 2))
+      .toEqual({ retry: true, delay: 150 });
+    jest.restoreAllMocks();
+  });
+
+  it('should only retry errors accepted by retryIf', () => {
+    const strategy = exponentialBackoff({ retryIf: (error) => error.status >= 500 });
+    expect(strategy({ status: 404 }, 1)).toBe(false);
+    expect(strategy({ status: 503 }, 1)).toEqual({ retry: true, delay: 200 });
+  });
+
+  it('should drive createAsync retries', async () => {
+    jest.useFakeTimers();
+    let callCount = 0;
+    const retryFn = createAsync(async () => {
+      callCount++;
+      throw new Error('fail');
+    }, {
+      retryStrategy: exponentialBackoff({ base: 100, retries: 2 }),
+    });
+
+    const p = retryFn();
+    const assertion = expect(p).rejects.toThrow('fail');
+    await jest.advanceTimersByTimeAsync(100);
+    expect(callCount).toBe(2);
+    await jest.advanceTimersByTimeAsync(200);
+    expect(callCount).toBe(3);
+    await assertion;
+    jest.useRealTimers();
+  });
+});
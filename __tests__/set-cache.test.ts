@@ -0,0 +1,59 @@
+import { createAsync, IdCacheManager } from '../src';
+import type { CacheManager } from '../src';
+
+afterEach(() => {
+  IdCacheManager.clearAll();
+});
+
+describe('setCache / updateCache', () => {
+  test('setCache answers the next call from the cache', async () => {
+    const fn = jest.fn(async (id: string) => ({ id, name: 'old' }));
+    const getUser = createAsync(fn, { ttl: 1000 });
+
+    getUser.setCache(['1'], { id: '1', name: 'new' });
+    await expect(getUser('1')).resolves.toEqual({ id: '1', name: 'new' });
+    expect(fn).not.toHaveBeenCalled();
+    expect(getUser.getState('1')).toMatchObject({ status: 'success', data: { id: '1', name: 'new' } });
+  });
+
+  test('updateCache derives the new value from the cached one', async () => {
+    const getCount = createAsync(async () => 1, { ttl: 1000 });
+    await getCount();
+
+    getCount.updateCache([], prev => prev! + 1);
+    await expect(getCount()).resolves.toBe(2);
+  });
+
+  test('updateCache falls back to the last result when nothing is cached', async () => {
+    const getCount = createAsync(async () => 1);
+    await getCount();
+
+    const updater = jest.fn((prev?: number) => (prev ?? 0) + 10);
+    getCount.updateCache([], updater);
+    expect(updater).toHaveBeenCalledWith(1);
+    expect(getCount.getState().data).toBe(11);
+  });
+
+  test('writes go through the id-based manager', async () => {
+    const id = `set-cache-${Date.now()}`;
+    const writer = createAsync(async () => 'fetched', { id, ttl: 1000 });
+    const reader = createAsync(async () => 'fetched', { id, ttl: 1000 });
+
+    writer.setCache([], 'written');
+    await expect(reader()).resolves.toBe('written');
+  });
+
+  test('writes go through a custom manager', () => {
+    const store = new Map<string, any>();
+    const cacheManager: CacheManager<string> = {
+      get: key => (store.has(key) ? { value: store.get(key) } : null),
+      set: (key, value) => { store.set(key, value); },
+      delete: key => { store.delete(key); },
+      clear: () => store.clear(),
+    };
+    const getData = createAsync(async (v: string) => v, { cacheManager });
+
+    getData.setCache(['a'], 'A');
+    expect(store.get('["a"]')).toBe('A');
+  });
+});
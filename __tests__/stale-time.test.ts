@@ -0,0 +1,115 @@
+import { createAsync, WeakMapCacheManager, IdCacheManager } from '../src';
+import type { CacheManager } from '../src';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  IdCacheManager.clearAll();
+});
+
+describe('staleTime', () => {
+  test('revalidates only hits older than staleTime', async () => {
+    let version = 0;
+    const fn = jest.fn(async () => ++version);
+    const onBackgroundUpdateStart = jest.fn();
+    const getData = createAsync(fn, { ttl: 1000, staleTime: 100, swr: true, onBackgroundUpdateStart });
+
+    await expect(getData()).resolves.toBe(1);
+    await jest.advanceTimersByTimeAsync(50);
+    await expect(getData()).resolves.toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onBackgroundUpdateStart).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(getData()).resolves.toBe(1);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onBackgroundUpdateStart).toHaveBeenCalledWith(1);
+
+    // the revalidated entry is fresh again
+    await expect(getData()).resolves.toBe(2);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('drops entries older than ttl', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 200, staleTime: 100 });
+
+    await getData();
+    await jest.advanceTimersByTimeAsync(250);
+    await getData();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('revalidates stale hits without swr', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { id: `stale-time-${Date.now()}`, ttl: 1000, staleTime: 100 });
+
+    await getData();
+    await jest.advanceTimersByTimeAsync(150);
+    await getData();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('without staleTime, swr revalidates every hit', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 1000, swr: true });
+
+    await getData();
+    await getData();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('hits of unknown age are treated as stale', async () => {
+    const store = new Map<string, string>();
+    const cacheManager: CacheManager<string> = {
+      get: key => (store.has(key) ? { value: store.get(key)! } : null),
+      set: (key, value) => { store.set(key, value); },
+      delete: key => { store.delete(key); },
+      clear: () => store.clear(),
+    };
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { cacheManager, staleTime: 60_000 });
+
+    await getData();
+    await getData();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('prefetch refreshes entries older than staleTime', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 1000, staleTime: 100 });
+
+    await getData.prefetch();
+    await getData.prefetch();
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(150);
+    await getData.prefetch();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  test('WeakMapCacheManager.peek reports the age of the entry', async () => {
+    const getData = createAsync(async () => 'data', { ttl: 1000 });
+    await getData();
+    await jest.advanceTimersByTimeAsync(40);
+    expect(WeakMapCacheManager.peek(getData, '[]', { ttl: 1000, cacheCapacity: -1 }))
+      .toEqual({ value: 'data', age: 40 });
+  });
+
+  test('WeakMapCacheManager does not serve entries older than ttl under a capacity limit', async () => {
+    const fn = jest.fn(async () => 'data');
+    const getData = createAsync(fn, { ttl: 20, cacheCapacity: 5 });
+    await getData();
+    await jest.advanceTimersByTimeAsync(40);
+
+    expect(WeakMapCacheManager.peek(getData, '[]', { ttl: 20, cacheCapacity: 5 })).toBeNull();
+    await getData();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,210 @@
+import { createAsync, StorageCacheManager, stringifyWithTypes, parseWithTypes } from '../src';
+import type { StorageLike } from '../src';
+
+/** In-memory storage refusing to hold more than `quota` characters. */
+function createStorage(quota = Infinity): StorageLike & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  const used = () => [...items.values()].reduce((sum, v) => sum + v.length, 0);
+  return {
+    items,
+    get length() {
+      return items.size;
+    },
+    key: i => [...items.keys()][i] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem(key, value) {
+      if (used() - (items.get(key)?.length ?? 0) + value.length > quota) {
+        throw new DOMException('quota exceeded', 'QuotaExceededError');
+      }
+      items.set(key, value);
+    },
+    removeItem: (key) => { items.delete(key); },
+  };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe('stringifyWithTypes / parseWithTypes', () => {
+  test('keep Date, Map and Set values, nested too', () => {
+    const value = {
+      at: new Date('2024-01-02T03:04:05.000Z'),
+      byId: new Map([['a', { tags: new Set(['x', 'y']) }]]),
+      plain: [1, 'two', null],
+    };
+    const copy = parseWithTypes<typeof value>(stringifyWithTypes(value));
+    expect(copy).toEqual(value);
+    expect(copy.at).toBeInstanceOf(Date);
+    expect(copy.byId.get('a')!.tags).toBeInstanceOf(Set);
+  });
+});
+
+describe('StorageCacheManager', () => {
+  test('stores entries under the prefix, with their age', () => {
+    const storage = createStorage();
+    const m = new StorageCacheManager<{ at: Date }>({ storage, prefix: 'users:' });
+
+    m.set('k', { at: new Date(0) });
+    expect([...storage.items.keys()]).toEqual(['users:k']);
+    jest.advanceTimersByTime(30);
+    expect(m.get('k')).toEqual({ value: { at: new Date(0) }, age: 30 });
+    expect(m.get('missing')).toBeNull();
+
+    m.delete('k');
+    expect(m.get('k')).toBeNull();
+  });
+
+  test('survives a new instance over the same storage', () => {
+    const storage = createStorage();
+    new StorageCacheManager({ storage }).set('k', 1);
+    expect(new StorageCacheManager({ storage }).get('k')).toMatchObject({ value: 1 });
+  });
+
+  test('uses localStorage by default', () => {
+    new StorageCacheManager().set('k', 'v');
+    expect(localStorage.getItem('great-async:k')).not.toBeNull();
+  });
+
+  test('drops entries older than ttl', () => {
+    const storage = createStorage();
+    const m = new StorageCacheManager({ storage, ttl: 100 });
+    m.set('a', 1);
+    jest.advanceTimersByTime(60);
+    m.set('b', 2);
+    jest.advanceTimersByTime(60);
+
+    m.clearExpired();
+    expect([...storage.items.keys()]).toEqual(['great-async:b']);
+    jest.advanceTimersByTime(60);
+    expect(m.get('b')).toBeNull();
+    expect(storage.items.size).toBe(0);
+  });
+
+  test('evicts the least recently used entry over cacheCapacity', () => {
+    const storage = createStorage();
+    const m = new StorageCacheManager({ storage, cacheCapacity: 2 });
+    m.set('a', 1);
+    m.set('b', 2);
+    m.get('a');
+    m.set('c', 3);
+
+    expect(m.get('a')).toMatchObject({ value: 1 });
+    expect(m.get('b')).toBeNull();
+    expect(m.get('c')).toMatchObject({ value: 3 });
+  });
+
+  test('evicts the least recently used entries over maxCacheBytes', () => {
+    const storage = createStorage();
+    // '"xxxx"' is 6 characters of JSON
+    const m = new StorageCacheManager<string>({ storage, maxCacheBytes: 14 });
+    m.set('a', 'xxxx');
+    m.set('b', 'xxxx');
+    m.get('a');
+    m.set('c', 'xxxx');
+
+    expect(m.get('a')).toMatchObject({ value: 'xxxx' });
+    expect(m.get('b')).toBeNull();
+    expect(m.get('c')).toMatchObject({ value: 'xxxx' });
+
+    m.set('d', 'x'.repeat(20));
+    expect(m.get('d')).toBeNull();
+    expect(storage.items.size).toBe(2);
+  });
+
+  test('clear only removes entries of its prefix', () => {
+    const storage = createStorage();
+    storage.setItem('other', 'kept');
+    const m = new StorageCacheManager({ storage, prefix: 'p:' });
+    m.set('a', 1);
+    m.set('b', 2);
+    m.clear();
+    expect([...storage.items.keys()]).toEqual(['other']);
+  });
+
+  test('evicts the oldest entries when the storage is full', () => {
+    const storage = createStorage(200);
+    const m = new StorageCacheManager<string>({ storage });
+    m.set('a', 'x'.repeat(50));
+    m.set('b', 'x'.repeat(50));
+    m.set('c', 'x'.repeat(50));
+
+    expect(m.get('a')).toBeNull();
+    expect(m.get('c')).toMatchObject({ value: 'x'.repeat(50) });
+  });
+
+  test('gives up on entries larger than the storage', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createStorage(100);
+    const m = new StorageCacheManager<string>({ storage });
+    m.set('a', 'small');
+    m.set('huge', 'x'.repeat(500));
+    expect(m.get('huge')).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('great-async:huge'), expect.anything());
+  });
+
+  test('does not evict other entries when the storage fails for another reason', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage = createStorage();
+    const m = new StorageCacheManager<string>({ storage });
+    m.set('a', 'kept');
+    const setItem = jest.spyOn(storage, 'setItem').mockImplementation(() => {
+      throw new DOMException('denied', 'SecurityError');
+    });
+
+    m.set('b', 'value');
+    setItem.mockRestore();
+    expect(m.get('a')).toMatchObject({ value: 'kept' });
+    expect(m.get('b')).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('great-async:b'), expect.anything());
+  });
+
+  test('drops entries that cannot be deserialized', () => {
+    const storage = createStorage();
+    storage.setItem('great-async:k', '{not json');
+    const m = new StorageCacheManager({ storage });
+    expect(m.get('k')).toBeNull();
+    expect(storage.items.size).toBe(0);
+  });
+
+  test('supports custom serialize / deserialize', () => {
+    const storage = createStorage();
+    const serialize = jest.fn((entry: unknown) => `custom:${JSON.stringify(entry)}`);
+    const deserialize = jest.fn((text: string) => JSON.parse(text.slice('custom:'.length)));
+    const m = new StorageCacheManager({ storage, serialize, deserialize });
+    m.set('k', { a: 1 });
+    expect(storage.getItem('great-async:k')).toMatch(/^custom:/);
+    expect(m.get('k')).toMatchObject({ value: { a: 1 } });
+  });
+
+  test('is a no-op without a storage', () => {
+    const m = new StorageCacheManager({ storage: null });
+    m.set('k', 1);
+    expect(m.get('k')).toBeNull();
+    expect(() => {
+      m.delete('k');
+      m.clear();
+      m.clearExpired();
+    }).not.toThrow();
+  });
+
+  test('works as the cacheManager of createAsync', async () => {
+    const storage = createStorage();
+    const fn = jest.fn(async (id: string) => ({ id, loadedAt: new Date() }));
+    const getUser = createAsync(fn, { cacheManager: new StorageCacheManager({ storage }) });
+    const first = await getUser('1');
+
+    // e.g. after a page reload
+    const reloaded = createAsync(fn, { cacheManager: new StorageCacheManager({ storage }) });
+    const second = await reloaded('1');
+    expect(second).toEqual(first);
+    expect(second.loadedAt).toBeInstanceOf(Date);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
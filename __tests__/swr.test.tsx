@@ -117,4 +117,30 @@ test('staleWhileRevalidate - disabled behavior', async () => {
     });
     expect(callCount).toBe(2);
     expect(screen.queryByRole('background-updating')).not.toBeInTheDocument();
-}); 
\ No newline at end of file
+}); 
+
+test('staleWhileRevalidate - dedupingInterval shares one revalidation across mounted hooks', async () => {
+    let callCount = 0;
+    const getUserInfo = async () => {
+        callCount++;
+        await sleep(50);
+        return `user-${callCount}`;
+    };
+    const id = `swr-deduping-${Date.now()}`;
+
+    const Item = () => {
+        const { data } = useAsync(getUserInfo, { id, ttl: 10000, swr: true, dedupingInterval: 2000 });
+        return <span role="item">{data}</span>;
+    };
+
+    const first = render(<Item />);
+    await waitFor(() => expect(screen.getByRole('item')).toHaveTextContent('user-1'));
+    first.unmount();
+
+    render(<>{Array.from({ length: 10 }, (_, i) => <Item key={i} />)}</>);
+    await waitFor(() => {
+        screen.getAllByRole('item').forEach(item => expect(item).toHaveTextContent('user-2'));
+    });
+    await sleep(100);
+    expect(callCount).toBe(2);
+});
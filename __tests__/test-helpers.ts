@@ -134,4 +134,30 @@ export const createInteractiveTestComponent = (asyncFn: any, options = {}) => {
       }, 'change flag')
     ]);
   };
-}; 
\ No newline at end of file
+}; 
+// In-memory AsyncCacheManager answering after `delay` ms
+export const createMemoryAsyncCacheManager = <T = any>(delay = 0) => {
+  const store = new Map<string, { value: T; writtenAt: number }>();
+  const wait = () => (delay > 0 ? sleep(delay) : Promise.resolve());
+  const manager = {
+    store,
+    get: jest.fn(async (key: string) => {
+      await wait();
+      const entry = store.get(key);
+      return entry ? { value: entry.value, age: Date.now() - entry.writtenAt } : null;
+    }),
+    set: jest.fn(async (key: string, value: T) => {
+      await wait();
+      store.set(key, { value, writtenAt: Date.now() });
+    }),
+    delete: jest.fn(async (key: string) => {
+      await wait();
+      store.delete(key);
+    }),
+    clear: jest.fn(async () => {
+      await wait();
+      store.clear();
+    }),
+  };
+  return manager;
+};
@@ -0,0 +1,117 @@
+import { createAsync, DIMENSIONS, AbortError } from '../src';
+
+const createTracked = () => {
+  const calls: any[] = [];
+  const fn = async (v: string) => {
+    calls.push(v);
+    return `res-${v}`;
+  };
+  return { calls, fn };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('throttle', () => {
+  test('leading + trailing: runs immediately, then once more with the last params', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { throttleTime: 100 });
+
+    const p1 = getData('a');
+    await jest.advanceTimersByTimeAsync(10);
+    const p2 = getData('b');
+    const p3 = getData('c');
+
+    expect(calls).toEqual(['a']);
+    await jest.advanceTimersByTimeAsync(90);
+    expect(calls).toEqual(['a', 'c']);
+
+    await expect(p1).resolves.toBe('res-a');
+    await expect(p2).resolves.toBe('res-c');
+    await expect(p3).resolves.toBe('res-c');
+  });
+
+  test('the trailing execution opens a new window', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { throttleTime: 100 });
+
+    getData('a');
+    getData('b');
+    await jest.advanceTimersByTimeAsync(100);
+    expect(calls).toEqual(['a', 'b']);
+
+    const p = getData('c');
+    await jest.advanceTimersByTimeAsync(50);
+    expect(calls).toEqual(['a', 'b']);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(calls).toEqual(['a', 'b', 'c']);
+    await expect(p).resolves.toBe('res-c');
+
+    // window is idle again: the next call runs on the leading edge
+    await jest.advanceTimersByTimeAsync(100);
+    getData('d');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('trailing: false folds calls into the leading execution', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { throttleTime: 100, throttleTrailing: false });
+
+    const p1 = getData('a');
+    const p2 = getData('b');
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(calls).toEqual(['a']);
+    await expect(p1).resolves.toBe('res-a');
+    await expect(p2).resolves.toBe('res-a');
+  });
+
+  test('leading: false only runs on the trailing edge', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { throttleTime: 100, throttleLeading: false });
+
+    const p1 = getData('a');
+    const p2 = getData('b');
+    await jest.advanceTimersByTimeAsync(99);
+    expect(calls).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(calls).toEqual(['b']);
+    await expect(p1).resolves.toBe('res-b');
+    await expect(p2).resolves.toBe('res-b');
+  });
+
+  test('DIMENSIONS.PARAMETERS throttles each params separately', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, {
+      throttleTime: 100,
+      throttleDimension: DIMENSIONS.PARAMETERS,
+      throttleTrailing: false,
+    });
+
+    const res = Promise.all([getData('a'), getData('b'), getData('a'), getData('b')]);
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(res).resolves.toEqual(['res-a', 'res-b', 'res-a', 'res-b']);
+    expect(calls).toEqual(['a', 'b']);
+  });
+
+  test('aborting the call that owns the trailing execution cancels it', async () => {
+    const { calls, fn } = createTracked();
+    const getData = createAsync(fn, { throttleTime: 100 });
+
+    getData('a');
+    const p2 = getData('b');
+    const p3 = getData('c');
+    getData.abort('c');
+
+    await expect(p2).rejects.toBeInstanceOf(AbortError);
+    await expect(p3).rejects.toBeInstanceOf(AbortError);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(calls).toEqual(['a']);
+  });
+});
@@ -0,0 +1,105 @@
+import { createAsync, TimeoutError } from '../src';
+import { sleep } from '../src/utils';
+
+describe('timeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('rejects with a TimeoutError carrying key and elapsed time', async () => {
+    const getData = createAsync(async (id: number) => {
+      await sleep(1000);
+      return id;
+    }, {
+      timeout: 300,
+    });
+
+    const p = getData(1);
+    const assertion = expect(p).rejects.toMatchObject({
+      name: 'TimeoutError',
+      key: '[1]',
+      elapsed: 300,
+      timeout: 300,
+    });
+    await jest.advanceTimersByTimeAsync(300);
+    await assertion;
+    await expect(p).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  test('resolves normally when fn settles in time', async () => {
+    const getData = createAsync(async (id: number) => {
+      await sleep(100);
+      return id;
+    }, {
+      timeout: 300,
+    });
+
+    const p = getData(1);
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(p).resolves.toBe(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  test('aborts the signal handed to fn', async () => {
+    let signal: AbortSignal | undefined;
+    const getData = createAsync(async (s?: AbortSignal) => {
+      signal = s;
+      await sleep(1000);
+      return 1;
+    }, {
+      timeout: 300,
+      withSignal: true,
+    });
+
+    const assertion = expect(getData()).rejects.toBeInstanceOf(TimeoutError);
+    await jest.advanceTimersByTimeAsync(300);
+    await assertion;
+    expect(signal!.aborted).toBe(true);
+    expect(signal!.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  test('attempt scope: timed out attempts go through retryStrategy', async () => {
+    let times = 0;
+    const errors: any[] = [];
+    const getData = createAsync(async () => {
+      times++;
+      await sleep(times < 3 ? 1000 : 100);
+      return times;
+    }, {
+      timeout: 300,
+      retryStrategy: (error, currentRetryCount) => {
+        errors.push(error);
+        return error instanceof TimeoutError && currentRetryCount <= 3;
+      },
+    });
+
+    const p = getData();
+    await jest.advanceTimersByTimeAsync(300 + 300 + 100);
+    await expect(p).resolves.toBe(3);
+    expect(errors).toHaveLength(2);
+    expect(errors.every(e => e instanceof TimeoutError)).toBe(true);
+  });
+
+  test('total scope: covers the whole retry sequence', async () => {
+    let times = 0;
+    const getData = createAsync(async () => {
+      times++;
+      await sleep(100);
+      throw new Error('fail');
+    }, {
+      timeout: 250,
+      timeoutScope: 'total',
+      retryStrategy: () => true,
+    });
+
+    const p = getData();
+    const assertion = expect(p).rejects.toMatchObject({ name: 'TimeoutError', elapsed: 250 });
+    await jest.advanceTimersByTimeAsync(250);
+    await assertion;
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(times).toBe(3);
+  });
+});
@@ -1,5 +1,5 @@
 import { sleep } from '../src/utils';
-import { useAsync, IdCacheManager } from '../src';
+import { useAsync, createAsync, createMutation, IdCacheManager } from '../src';
 import type { CacheManager } from '../src';
 import '@testing-library/jest-dom/extend-expect';
 import { render, screen, waitFor, act } from '@testing-library/react';
@@ -163,3 +163,145 @@ test('IdCacheManager.clear(id) wipes cross-mount cache', async () => {
   await waitFor(() => screen.getByRole('app'));
   expect(callCount).toBe(2);
 });
+
+test('setCache on a function sharing the id re-renders mounted hooks', async () => {
+  const id = uniqueId('set-cache');
+  const fetchUser = async (userId: string) => {
+    await sleep(10);
+    return { name: `user-${userId}` };
+  };
+  const userAPI = createAsync(fetchUser, { id, ttl: 5_000 });
+
+  const App = () => {
+    const { loading, data } = useAsync(() => fetchUser('1'), { id, ttl: 5_000 });
+    if (loading) return <span role="loading">loading</span>;
+    return <div role="app">{data?.name}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('user-1'));
+
+  // another key leaves the hook alone
+  act(() => userAPI.setCache(['2'], { name: 'other' }));
+  expect(screen.getByRole('app')).toHaveTextContent('user-1');
+
+  // the hook called its function without params
+  act(() => userAPI.updateCache([] as any, prev => ({ name: `${prev?.name}-renamed` })));
+  expect(screen.getByRole('app')).toHaveTextContent('user-1-renamed');
+});
+
+test('invalidate on a function sharing the id refetches mounted hooks in the background', async () => {
+  const id = uniqueId('invalidate');
+  let callCount = 0;
+  const fetchData = async () => {
+    callCount++;
+    await sleep(20);
+    return { value: callCount };
+  };
+  const api = createAsync(fetchData, { id, ttl: 5_000 });
+  const renders: string[] = [];
+
+  const App = () => {
+    const { loading, data } = useAsync(fetchData, { id, ttl: 5_000 });
+    renders.push(loading ? 'loading' : `value=${data?.value}`);
+    if (loading) return <span role="loading">loading</span>;
+    return <div role="app">value={data?.value}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=1'));
+  renders.length = 0;
+
+  act(() => api.invalidate());
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=2'));
+  expect(callCount).toBe(2);
+  expect(renders).not.toContain('loading');
+});
+
+test('a hook mounted after prefetch renders the data without loading', async () => {
+  const id = uniqueId('prefetch');
+  let callCount = 0;
+  const fetchData = async () => {
+    callCount++;
+    await sleep(10);
+    return { value: callCount };
+  };
+  await createAsync(fetchData, { id, ttl: 5_000 }).prefetch();
+
+  const App = () => {
+    const { loading, data } = useAsync(fetchData, { id, ttl: 5_000 });
+    if (loading) return <span role="loading">loading</span>;
+    return <div role="app">value={data?.value}</div>;
+  };
+
+  render(<App />);
+  expect(screen.queryByRole('loading')).toBeNull();
+  expect(screen.getByRole('app')).toHaveTextContent('value=1');
+  await act(() => sleep(20));
+  expect(screen.queryByRole('loading')).toBeNull();
+  expect(callCount).toBe(1);
+});
+
+test('a failed optimistic mutation without a previous entry refetches mounted hooks', async () => {
+  const id = uniqueId('rollback');
+  let callCount = 0;
+  const fetchData = async () => {
+    callCount++;
+    await sleep(10);
+    return `value=${callCount}`;
+  };
+  const api = createAsync(fetchData, { id, ttl: 50 });
+
+  const App = () => {
+    const { loading, data } = useAsync(fetchData, { id, ttl: 50 });
+    if (loading) return <span role="loading">loading</span>;
+    return <div role="app">{data}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=1'));
+  // the entry expires: the optimistic write has no previous value to restore
+  await act(() => sleep(80));
+
+  const save = createMutation(async () => {
+    await sleep(10);
+    throw new Error('failed');
+  }, {
+    onMutate: (_params, optimistic) => optimistic.setCache(api, [], 'optimistic'),
+  });
+  let saving!: Promise<unknown>;
+  act(() => {
+    saving = save().catch(() => undefined);
+  });
+  expect(screen.getByRole('app')).toHaveTextContent('optimistic');
+
+  await act(() => saving);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=2'));
+  // the optimistic value is forgotten by the function it was written through too
+  expect(api.getState()).toMatchObject({ status: 'idle', data: undefined });
+});
+
+test('clearCache does not refetch mounted hooks', async () => {
+  const id = uniqueId('clear');
+  let callCount = 0;
+  const fetchData = async () => {
+    callCount++;
+    await sleep(10);
+    return `value=${callCount}`;
+  };
+  let clear!: () => void;
+
+  const App = () => {
+    const { loading, data, clearCache } = useAsync(fetchData, { id, ttl: 10_000 });
+    clear = clearCache;
+    if (loading) return <span role="loading">loading</span>;
+    return <div role="app">{data}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=1'));
+  act(() => clear());
+  await act(() => sleep(30));
+  expect(screen.getByRole('app')).toHaveTextContent('value=1');
+  expect(callCount).toBe(1);
+});
@@ -1,9 +1,10 @@
 import { sleep } from '../src/utils';
-import { useAsync } from '../src';
+import { useAsync, invalidateTags } from '../src';
 import '@testing-library/jest-dom/extend-expect';
 import { fireEvent, render, screen, waitFor, act } from '@testing-library/react';
 import { useEffect, useState } from 'react';
 import { shareLoading } from '../src/share-loading';
+import { createMemoryAsyncCacheManager } from './test-helpers';
 
 
 describe('useAsync', () => {
@@ -814,5 +815,100 @@ it('should support auto="deps-only" mode - no auto-call on mount but auto-call o
   });
 });
 
+test('invalidateTags refetches mounted hooks rendering a tagged entry', async () => {
+  let callCount = 0;
+  const fetchData = async () => {
+    callCount++;
+    await sleep(20);
+    return { value: callCount };
+  };
+  const renders: string[] = [];
+
+  const App = () => {
+    const { loading, data } = useAsync(fetchData, { ttl: 5_000, tags: ['hook-tag'] });
+    renders.push(loading ? 'loading' : `value=${data?.value}`);
+    if (loading) return <span role="loading">loading</span>;
+    return <div role="app">value={data?.value}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=1'));
+  renders.length = 0;
+
+  act(() => invalidateTags(['hook-tag']));
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=2'));
+  expect(renders).not.toContain('loading');
+});
+
+test('refetchInterval refetches until refetchUntil is satisfied, and stops on unmount', async () => {
+  let progress = 0;
+  const fetchJob = async () => {
+    progress += 25;
+    return { progress };
+  };
+
+  const App = ({ until }: { until: number }) => {
+    const { data } = useAsync(fetchJob, {
+      refetchInterval: 30,
+      refetchUntil: job => job.progress >= until,
+    });
+    return <div role="app">progress={data?.progress}</div>;
+  };
+
+  const { unmount } = render(<App until={75} />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('progress=75'));
+  await sleep(100);
+  expect(progress).toBe(75);
+  unmount();
+
+  progress = 0;
+  const second = render(<App until={1000} />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('progress=50'));
+  second.unmount();
+  const atUnmount = progress;
+  await sleep(100);
+  expect(progress).toBe(atUnmount);
+});
+
+test('an asynchronous cacheManager hit clears the loading state once the lookup settles', async () => {
+  const cacheManager = createMemoryAsyncCacheManager<{ value: number }>(10);
+  await cacheManager.set('[]', { value: 1 });
+  const fetchData = jest.fn(async () => ({ value: 2 }));
+  const renders: string[] = [];
+
+  const App = () => {
+    const { loading, data } = useAsync(fetchData, { cacheManager });
+    renders.push(loading ? 'loading' : `value=${data?.value}`);
+    return <div role="app">value={data?.value}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=1'));
+  // loading until the cache answered, never "not loading" without data
+  expect(renders[0]).toBe('loading');
+  expect(renders).not.toContain('value=undefined');
+  expect(fetchData).not.toHaveBeenCalled();
+});
+
+test('an asynchronous cacheManager miss shows loading until the data arrives', async () => {
+  const cacheManager = createMemoryAsyncCacheManager<{ value: number }>(10);
+  const fetchData = async () => {
+    await sleep(20);
+    return { value: 2 };
+  };
+  const renders: string[] = [];
+
+  const App = () => {
+    const { loading, data } = useAsync(fetchData, { cacheManager });
+    renders.push(loading ? 'loading' : `value=${data?.value}`);
+    return <div role="app">value={data?.value}</div>;
+  };
+
+  render(<App />);
+  await waitFor(() => expect(screen.getByRole('app')).toHaveTextContent('value=2'));
+  expect(renders[0]).toBe('loading');
+  expect(renders).not.toContain('value=undefined');
+});
+
   }); // end describe('Basic functionality')
 }); // end describe('useAsync')
\ No newline at end of file
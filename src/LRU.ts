@@ -1,26 +1,63 @@
-
-
+/**
+ * Map evicting its least recently used entries once it holds more than
+ * `capacity` entries, or once the `sizeOf` of its values adds up to more than
+ * `maxSize`. -1 means no limit. A value larger than `maxSize` on its own is
+ * not stored. `onEvict` is called with each evicted key.
+ */
 export class LRU<K extends any = any, V extends any = any> extends Map<K, V> {
 	capacity: number;
-	constructor(capacity: number) {
+	maxSize: number;
+	/** sum of the `sizeOf` of the values, when `maxSize` is set */
+	totalSize = 0;
+	private sizeOf?: (value: V) => number;
+	private sizes = new Map<K, number>();
+	private onEvict?: (key: K) => void;
+	constructor(capacity: number, maxSize: number = -1, sizeOf?: (value: V) => number, onEvict?: (key: K) => void) {
 		super();
 		this.capacity = capacity;
+		this.maxSize = maxSize;
+		this.sizeOf = sizeOf;
+		this.onEvict = onEvict;
 	}
 	get(key: K): V | undefined {
 		const res = super.get(key);
 		if (res !== undefined) {
-			this.delete(key);
-			this.set(key, res);
+			super.delete(key);
+			super.set(key, res);
 		}
 		return res;
 	}
 	set(key: K, value: V): this {
-		this.get(key);
+		this.delete(key);
+		if (this.maxSize !== -1 && this.sizeOf) {
+			const size = this.sizeOf(value);
+			// could never fit: keep the other entries rather than evicting them all
+			if (size > this.maxSize) return this;
+			this.sizes.set(key, size);
+			this.totalSize += size;
+		}
 		super.set(key, value);
-		if (this.size > this.capacity) {
-			const outKey = this.keys().next().value;
-			outKey && this.delete(outKey);
+		while (this.size > 0 && (
+			(this.capacity !== -1 && this.size > this.capacity)
+			|| (this.maxSize !== -1 && this.totalSize > this.maxSize)
+		)) {
+			const evicted = this.keys().next().value!;
+			this.delete(evicted);
+			this.onEvict?.(evicted);
 		}
 		return this;
 	}
+	delete(key: K): boolean {
+		const size = this.sizes.get(key);
+		if (size !== undefined) {
+			this.totalSize -= size;
+			this.sizes.delete(key);
+		}
+		return super.delete(key);
+	}
+	clear(): void {
+		this.sizes.clear();
+		this.totalSize = 0;
+		super.clear();
+	}
 }
@@ -0,0 +1,129 @@
+import type { AsyncError } from "./common";
+
+/**
+ * - 'idle': never executed
+ * - 'pending': the first execution is in flight
+ * - 'success' / 'error': how the last execution settled
+ */
+export type AsyncStatus = 'idle' | 'pending' | 'success' | 'error';
+
+export interface AsyncState<T = any> {
+  status: AsyncStatus;
+  /** result of the last successful execution, kept while refetching and after an error */
+  data: T | undefined;
+  /** error of the last execution, null once an execution succeeds */
+  error: AsyncError | null;
+  /** when the last execution settled, in ms since epoch; 0 if none did */
+  updatedAt: number;
+  /** whether an execution is in flight, including SWR background updates */
+  isFetching: boolean;
+}
+
+export type AsyncStateListener<T = any> = (state: AsyncState<T>) => void;
+
+const IDLE_STATE: AsyncState = Object.freeze({
+  status: 'idle',
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+}) as AsyncState;
+
+/**
+ * Per-key state of one enhanced function, see `fnProxy.getState`.
+ *
+ * States are immutable snapshots: every change creates a new object, so a
+ * listener (or `useSyncExternalStore`) can compare them by reference.
+ */
+export class AsyncStateStore<T = any> {
+  private states = new Map<string, AsyncState<T>>();
+  /** number of executions in flight per key */
+  private fetching = new Map<string, number>();
+  private listeners = new Map<string, AsyncStateListener<T>[]>();
+
+  get(key: string): AsyncState<T> {
+    return this.states.get(key) || IDLE_STATE;
+  }
+
+  subscribe(key: string, listener: AsyncStateListener<T>): () => void {
+    const listeners = this.listeners.get(key) || [];
+    listeners.push(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      const rest = (this.listeners.get(key) || []).filter(l => l !== listener);
+      if (rest.length) {
+        this.listeners.set(key, rest);
+      } else {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  start(key: string): void {
+    const count = (this.fetching.get(key) || 0) + 1;
+    this.fetching.set(key, count);
+    if (count === 1) {
+      const prev = this.get(key);
+      this.set(key, {
+        ...prev,
+        status: prev.status === 'idle' ? 'pending' : prev.status,
+        isFetching: true,
+      });
+    }
+  }
+
+  succeed(key: string, data: T): void {
+    this.settle(key, { status: 'success', data, error: null });
+  }
+
+  fail(key: string, error: AsyncError): void {
+    this.settle(key, { status: 'error', error });
+  }
+
+  /** Record a value written to the cache directly, e.g. by `setCache`. */
+  write(key: string, data: T): void {
+    this.set(key, { ...this.get(key), status: 'success', data, error: null, updatedAt: Date.now() });
+  }
+
+  /**
+   * Record a value obtained without an execution (e.g. a cache hit), unless
+   * the key already has a settled state of its own.
+   */
+  seed(key: string, data: T): void {
+    const prev = this.get(key);
+    if (prev.status === 'idle' || prev.status === 'pending') {
+      this.set(key, { ...prev, status: 'success', data, updatedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Put back a state read with `get`, e.g. when an optimistic write is
+   * rolled back. Executions in flight still count.
+   */
+  restore(key: string, state: AsyncState<T>): void {
+    const isFetching = this.fetching.has(key);
+    const status = isFetching && state.status === 'idle' ? 'pending' : state.status;
+    this.set(key, { ...state, status, isFetching });
+  }
+
+  private settle(key: string, patch: Partial<AsyncState<T>>): void {
+    const count = Math.max(0, (this.fetching.get(key) || 0) - 1);
+    if (count) {
+      this.fetching.set(key, count);
+    } else {
+      this.fetching.delete(key);
+    }
+    this.set(key, {
+      ...this.get(key),
+      ...patch,
+      updatedAt: Date.now(),
+      isFetching: count > 0,
+    });
+  }
+
+  private set(key: string, state: AsyncState<T>): void {
+    this.states.set(key, state);
+    this.listeners.get(key)?.forEach(listener => listener(state));
+  }
+}
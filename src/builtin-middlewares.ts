@@ -0,0 +1,595 @@
+import type { PickPromiseType, PromiseFunction, SharedAbortController } from "./common";
+import { createLinkedAbortController, createSharedAbortController, delayWithSignal, isDev, raceWithSignal, throwIfAborted } from "./common";
+import { CircuitOpenError, TimeoutError } from "./errors";
+import { DEFAULT_PROMISE_DEBOUNCE_KEY, DEFAULT_SINGLE_KEY, DEFAULT_TIMER_KEY, DIMENSIONS } from "./token-manager";
+import { createTakeLatestPromiseFn } from "./take-latest-promise";
+import { normalizeRetryDecision } from "./retry-strategy";
+import type { AnyCacheManager, CacheHit } from "./cache-manager";
+import { ignoreCacheResult, isPromiseLike, mapMaybePromise } from "./maybe-async";
+import type { CreateAsyncOptions } from "./create-async";
+import type { AsyncContext, AsyncMiddleware, AsyncNext, BuiltinMiddleware, BuiltinMiddlewareName } from "./middleware";
+import type { Pool } from "./pool";
+import type { RateLimiter } from "./rate-limiter";
+import type { CircuitBreaker } from "./circuit-breaker";
+import type { AsyncStateStore } from "./async-state";
+import { StaleKeys, isPastStaleTime } from "./stale-keys";
+import { untagCacheEntry } from "./cache-tags";
+
+type Timer = ReturnType<typeof setTimeout>;
+
+interface Waiter {
+  resolve: (arg?: any) => any;
+  reject: (arg?: any) => any;
+}
+
+interface DebounceWindow {
+  timer: Timer;
+  /** runs the execution with the params of the latest call, null while only a leading call ran */
+  run: (() => Promise<any>) | null;
+  /** aborted once every call folded into the execution has aborted */
+  abort: SharedAbortController;
+  /** every call folded into this window's execution */
+  waiters: Waiter[];
+  /** when the current burst of calls started, for debounceMaxWait */
+  startedAt: number;
+}
+
+interface SingleExecution {
+  promise: Promise<any>;
+  /** aborted once every call sharing the execution has aborted */
+  abort: SharedAbortController;
+}
+
+interface Revalidation {
+  promise: Promise<any>;
+  startedAt: number;
+  settled: boolean;
+  /** enhanced functions whose background update callbacks were attached */
+  observers: Set<object>;
+}
+
+// Background updates per key of each cache manager, kept for
+// `dedupingInterval` so that functions sharing a manager (e.g. hooks with
+// the same `id`) share them too.
+const revalidationsByManager = new WeakMap<AnyCacheManager<any>, Map<string, Revalidation>>();
+
+function revalidationsOf(manager: AnyCacheManager<any>): Map<string, Revalidation> {
+  let revalidations = revalidationsByManager.get(manager);
+  if (!revalidations) {
+    revalidations = new Map();
+    revalidationsByManager.set(manager, revalidations);
+  }
+  return revalidations;
+}
+
+interface ThrottleWindow {
+  /** execution started when the window opened, if any */
+  leading: Promise<any> | null;
+  /** execution scheduled for the end of the window, if any call was folded into it */
+  trailing: {
+    run: () => Promise<any>;
+    owner: AbortSignal;
+    waiters: Waiter[];
+  } | null;
+}
+
+/**
+ * Resources createAsync resolves once per enhanced function and shares with
+ * its built-in middlewares.
+ */
+export interface BuiltinMiddlewareDeps<F extends PromiseFunction> {
+  getCacheManager: () => AnyCacheManager<PickPromiseType<F>>;
+  clearExpiredCache: () => void;
+  /** record the `tags` of an entry just written, unless the manager stored nothing */
+  tagEntry: (key: string, params: Parameters<F>, data: PickPromiseType<F>) => void;
+  pool: Pool | null;
+  rateLimiter: RateLimiter | null;
+  circuitBreaker: CircuitBreaker | null;
+  stateStore: AsyncStateStore<PickPromiseType<F>>;
+}
+
+function named<F extends PromiseFunction>(
+  middlewareName: BuiltinMiddlewareName,
+  middleware: AsyncMiddleware<F>,
+): BuiltinMiddleware<F> {
+  return Object.assign(middleware, { middlewareName });
+}
+
+/**
+ * Create the built-in features of one enhanced function as middlewares, in
+ * their default order. Each one passes straight through to `next` when its
+ * options leave the feature off.
+ */
+export function createBuiltinMiddlewares<F extends PromiseFunction>(
+  {
+    debounceTime = -1,
+    takeLatest = false,
+    debounceDimension = DIMENSIONS.FUNCTION,
+    debounceLeading = false,
+    debounceMaxWait = -1,
+    throttleTime = -1,
+    throttleDimension = DIMENSIONS.FUNCTION,
+    throttleLeading = true,
+    throttleTrailing = true,
+    single = false,
+    singleDimension = DIMENSIONS.FUNCTION,
+    retryCount = 0,
+    retryStrategy = (error, currentRetryCount) => {
+      // Default behavior: if retryCount is specified, use it; otherwise don't retry
+      return retryCount > 0 ? currentRetryCount <= retryCount : false;
+    },
+    beforeRun,
+    swr = false,
+    staleTime = -1,
+    dedupingInterval = -1,
+    onBackgroundUpdateStart,
+    onBackgroundUpdate,
+    timeout = -1,
+    timeoutScope = 'attempt',
+    priority = 0,
+    rateLimitMaxWait = -1,
+    onRateLimited,
+    circuitBreakerServeStale = false,
+    onSuccess,
+    onError,
+    onSettled,
+    onCacheHit,
+    onRetry,
+  }: CreateAsyncOptions<F>,
+  { getCacheManager, clearExpiredCache, tagEntry, pool, rateLimiter, circuitBreaker, stateStore }: BuiltinMiddlewareDeps<F>,
+): BuiltinMiddleware<F>[] {
+  if (isDev && throttleTime !== -1 && debounceTime !== -1) {
+    console.warn(
+      '[great-async] Both `throttleTime` and `debounceTime` were provided. ' +
+      '`debounceTime` will be ignored because `throttleTime` takes precedence.'
+    );
+  }
+  if (isDev && throttleTime !== -1 && !throttleLeading && !throttleTrailing) {
+    console.warn(
+      '[great-async] `throttleLeading` and `throttleTrailing` are both false. ' +
+      'Falling back to a trailing-edge throttle.'
+    );
+  }
+
+  const singleMap = new Map<string | symbol, SingleExecution>();
+  const debounceWindowMap = new Map<string | symbol, DebounceWindow>();
+  const throttleWindowMap = new Map<string | symbol, ThrottleWindow>();
+  // identifies this function among the observers of a shared revalidation
+  const observer = {};
+
+  /**
+   * Run `next` with a signal that follows `ctx.signal` but additionally
+   * aborts with a `TimeoutError` once `timeout` ms have passed.
+   */
+  function nextWithTimeout(ctx: AsyncContext<F>, next: AsyncNext<F>) {
+    const controller = createLinkedAbortController(ctx.signal);
+    const startedAt = Date.now();
+    const timer = setTimeout(() => {
+      controller.abort(new TimeoutError(ctx.key, Date.now() - startedAt, timeout));
+    }, timeout);
+    return raceWithSignal(next({ signal: controller.signal }), controller.signal)
+      .finally(() => clearTimeout(timer));
+  }
+
+  /** Keep `revalidation` for `dedupingInterval` ms from its start, or until it settles. */
+  function trackRevalidation(revalidations: Map<string, Revalidation>, key: string, revalidation: Revalidation) {
+    revalidations.set(key, revalidation);
+    const forget = () => {
+      if (revalidations.get(key) === revalidation) {
+        revalidations.delete(key);
+      }
+    };
+    revalidation.promise.catch(() => {}).then(() => {
+      revalidation.settled = true;
+      const remaining = revalidation.startedAt + dedupingInterval - Date.now();
+      if (remaining > 0) {
+        setTimeout(forget, remaining);
+      } else {
+        forget();
+      }
+    });
+  }
+
+  // Stale-while-revalidate pattern
+  const cache = named<F>('cache', (ctx, next) => {
+    // Each manager decides for itself whether clearing is a no-op.
+    clearExpiredCache();
+    if (ctx.revalidating) {
+      // a prefetch refreshes the cache rather than reading it
+      return next();
+    }
+    const lookup = getCacheManager().get(ctx.key);
+    if (isPromiseLike(lookup)) {
+      // an asynchronous manager: decide once the lookup settles, a failed
+      // lookup being a miss
+      return Promise.resolve(lookup)
+        .catch(() => null)
+        .then(cached => respondFromCache(cached, ctx, next));
+    }
+    return respondFromCache(lookup, ctx, next);
+  });
+
+  function respondFromCache(
+    cached: CacheHit<PickPromiseType<F>> | null,
+    ctx: AsyncContext<F>,
+    next: AsyncNext<F>,
+  ): Promise<PickPromiseType<F>> {
+    if (cached) {
+      stateStore.seed(ctx.key, cached.value);
+      onCacheHit?.(ctx.key, cached.value);
+    } else {
+      // the entry was evicted or expired, if it ever existed
+      StaleKeys.forManager(getCacheManager()).forget(ctx.key);
+      untagCacheEntry(getCacheManager(), ctx.key);
+    }
+
+    // keys marked stale by `invalidate` are revalidated even without swr
+    if (cached && (isPastStaleTime(cached, staleTime, swr)
+      || StaleKeys.forManager(getCacheManager()).isStale(ctx.key))) {
+      const revalidations = revalidationsOf(getCacheManager());
+      let revalidation = revalidations.get(ctx.key);
+      // at most one background update per key per dedupingInterval
+      if (!revalidation || (revalidation.settled && Date.now() - revalidation.startedAt >= dedupingInterval)) {
+        // Start background update through the rest of the pipeline
+        // (single dedup, debounce, retry, takeLatest) — so rapid calls
+        // naturally share the same background promise.
+        revalidation = {
+          promise: next({ revalidating: true }),
+          startedAt: Date.now(),
+          settled: false,
+          observers: new Set(),
+        };
+        if (dedupingInterval !== -1) {
+          trackRevalidation(revalidations, ctx.key, revalidation);
+        }
+      }
+
+      if (!revalidation.observers.has(observer)) {
+        revalidation.observers.add(observer);
+        // Notify that background update is starting
+        onBackgroundUpdateStart?.(cached.value);
+        ctx.waitUntil(revalidation.promise.then(
+          freshData => onBackgroundUpdate?.(freshData, undefined),
+          error => onBackgroundUpdate?.(undefined, error),
+        ));
+      } else {
+        ctx.waitUntil(revalidation.promise.catch(() => {}));
+      }
+
+      // Return cached data immediately
+      return Promise.resolve(cached.value);
+    }
+
+    if (cached) {
+      return Promise.resolve(cached.value);
+    }
+    return next();
+  }
+
+  const singleMiddleware = named<F>('single', (ctx, next) => {
+    if (!single || debounceTime !== -1 || throttleTime !== -1) {
+      return next();
+    }
+    const singleKey = singleDimension === DIMENSIONS.FUNCTION ? DEFAULT_SINGLE_KEY : ctx.key;
+    let execution = singleMap.get(singleKey);
+    if (execution) {
+      execution.abort.join(ctx.signal);
+    } else {
+      const abort = createSharedAbortController();
+      abort.join(ctx.signal);
+      const promise: Promise<any> = next({ signal: abort.signal }).finally(() => {
+        if (singleMap.get(singleKey) === execution) {
+          singleMap.delete(singleKey);
+        }
+      });
+      execution = { promise, abort };
+      singleMap.set(singleKey, execution);
+    }
+    // aborting a call only rejects it, the execution stops once every caller aborted
+    return raceWithSignal(execution.promise, ctx.signal);
+  });
+
+  function openThrottleWindow(timerKey: string | symbol): ThrottleWindow {
+    const win: ThrottleWindow = { leading: null, trailing: null };
+    throttleWindowMap.set(timerKey, win);
+    setTimeout(() => {
+      const trailing = win.trailing;
+      if (!trailing) {
+        throttleWindowMap.delete(timerKey);
+        return;
+      }
+      win.trailing = null;
+      // the trailing execution opens the next window
+      const next = openThrottleWindow(timerKey);
+      next.leading = trailing.run();
+      next.leading.then(
+        res => trailing.waiters.forEach(w => w.resolve(res)),
+        e => trailing.waiters.forEach(w => w.reject(e)),
+      );
+    }, throttleTime);
+    return win;
+  }
+
+  const throttle = named<F>('throttle', (ctx, next) => {
+    if (throttleTime === -1) {
+      return next();
+    }
+    const timerKey = throttleDimension === DIMENSIONS.FUNCTION ? DEFAULT_TIMER_KEY : ctx.key;
+    let win = throttleWindowMap.get(timerKey);
+    if (!win) {
+      win = openThrottleWindow(timerKey);
+      if (throttleLeading) {
+        win.leading = next();
+        return win.leading;
+      }
+    } else if (!throttleTrailing && win.leading) {
+      return win.leading;
+    }
+
+    // fold into the trailing execution, which runs with the latest params
+    const currentWin = win;
+    return new Promise((resolve, reject) => {
+      const self = { resolve, reject };
+      if (!currentWin.trailing) {
+        currentWin.trailing = { run: () => next(), owner: ctx.signal, waiters: [] };
+      } else {
+        currentWin.trailing.run = () => next();
+        currentWin.trailing.owner = ctx.signal;
+      }
+      currentWin.trailing.waiters.push(self);
+
+      ctx.signal.addEventListener('abort', () => {
+        const trailing = currentWin.trailing;
+        if (!trailing || !trailing.waiters.includes(self)) return;
+        const reason = ctx.signal.reason;
+        if (trailing.owner === ctx.signal) {
+          // the trailing execution was going to run with this call's params
+          currentWin.trailing = null;
+          trailing.waiters.forEach(w => w.reject(reason));
+          return;
+        }
+        trailing.waiters = trailing.waiters.filter(w => w !== self);
+        reject(reason);
+      }, { once: true });
+    });
+  });
+
+  const debounce = named<F>('debounce', (ctx, next) => {
+    if (debounceTime === -1 || throttleTime !== -1) {
+      return next();
+    }
+    const timerKey = debounceDimension === DIMENSIONS.FUNCTION ? DEFAULT_TIMER_KEY : ctx.key;
+    const now = Date.now();
+    const existing = debounceWindowMap.get(timerKey);
+
+    if (debounceLeading && !existing) {
+      // leading edge: run right away, and open a window that folds the
+      // calls following this one into a trailing execution
+      const leadingWin: DebounceWindow = {
+        timer: setTimeout(() => debounceWindowMap.delete(timerKey), debounceTime),
+        run: null,
+        abort: createSharedAbortController(),
+        waiters: [],
+        startedAt: now,
+      };
+      debounceWindowMap.set(timerKey, leadingWin);
+      return next();
+    }
+
+    const win: DebounceWindow = existing || {
+      timer: undefined as unknown as Timer,
+      run: null,
+      abort: createSharedAbortController(),
+      waiters: [],
+      startedAt: now,
+    };
+    debounceWindowMap.set(timerKey, win);
+
+    return new Promise((resolve, reject) => {
+      const self = { resolve, reject };
+      win.waiters.push(self);
+      win.abort.join(ctx.signal);
+      win.run = () => next({ signal: win.abort.signal });
+
+      // with debounceMaxWait, a burst of calls cannot postpone the execution forever
+      const wait = debounceMaxWait === -1
+        ? debounceTime
+        : Math.max(0, Math.min(debounceTime, win.startedAt + debounceMaxWait - now));
+      clearTimeout(win.timer);
+      win.timer = setTimeout(() => {
+        debounceWindowMap.delete(timerKey);
+        win.run!().then(
+          res => win.waiters.forEach(w => w.resolve(res)),
+          e => win.waiters.forEach(w => w.reject(e)),
+        );
+      }, wait);
+
+      // Aborting a call only rejects it. Once every call folded into the
+      // window has aborted, a pending execution is cancelled, and a running
+      // one observes the shared signal through retry.
+      ctx.signal.addEventListener('abort', () => {
+        const index = win.waiters.indexOf(self);
+        if (index !== -1) {
+          win.waiters.splice(index, 1);
+          reject(ctx.signal.reason);
+        }
+        if (!win.waiters.length && debounceWindowMap.get(timerKey) === win) {
+          clearTimeout(win.timer);
+          debounceWindowMap.delete(timerKey);
+        }
+      }, { once: true });
+    });
+  });
+
+  // beforeRun is called asynchronously, once the call has made it past
+  // dedupe and debounce — callers may update state from it.
+  const beforeRunMiddleware = named<F>('beforeRun', (ctx, next) => {
+    if (!beforeRun) {
+      return next();
+    }
+    return Promise.resolve().then(() => {
+      beforeRun();
+      return next();
+    });
+  });
+
+  // Outside cacheWrite and state: a stale value served while the circuit is
+  // open must not be stored as a fresh one.
+  const circuitBreakerMiddleware = named<F>('circuitBreaker', (ctx, next) => {
+    if (!circuitBreaker) {
+      return next();
+    }
+    return circuitBreaker.run(() => next(), { signal: ctx.signal }).catch((error) => {
+      const last = stateStore.get(ctx.key);
+      // a background update keeps the stale value it was refreshing anyway
+      if (circuitBreakerServeStale && error instanceof CircuitOpenError
+        && !ctx.revalidating && last.data !== undefined) {
+        return last.data;
+      }
+      throw error;
+    });
+  });
+
+  const cacheWrite = named<F>('cacheWrite', (ctx, next) => {
+    return next().then((res) => {
+      ignoreCacheResult(getCacheManager().set(ctx.key, res));
+      StaleKeys.forManager(getCacheManager()).markFresh(ctx.key);
+      tagEntry(ctx.key, ctx.params, res);
+      return res;
+    });
+  });
+
+  // Outside the pool: a call waiting for a slot is already fetching.
+  const state = named<F>('state', (ctx, next) => {
+    stateStore.start(ctx.key);
+    return next().then((data) => {
+      stateStore.succeed(ctx.key, data);
+      return data;
+    }, (error) => {
+      stateStore.fail(ctx.key, error);
+      throw error;
+    });
+  });
+
+  const poolMiddleware = named<F>('pool', (ctx, next) => {
+    if (!pool) {
+      return next();
+    }
+    return pool.run(() => {
+      if (ctx.revalidating) {
+        return next();
+      }
+      // another call may have filled the cache while this one was queued
+      return mapMaybePromise(getCacheManager().get(ctx.key), (queuedHit) => {
+        if (queuedHit) {
+          onCacheHit?.(ctx.key, queuedHit.value);
+          return Promise.resolve(queuedHit.value);
+        }
+        return next();
+      }) as Promise<PickPromiseType<F>>;
+    }, {
+      priority: typeof priority === 'function' ? priority(ctx.params) : priority,
+      signal: ctx.signal,
+    });
+  });
+
+  // Inside dedupe, debounce, throttle and the pool, so that every execution
+  // is reported once, whatever the number of calls folded into it.
+  const lifecycle = named<F>('lifecycle', (ctx, next) => {
+    if (!onSuccess && !onError && !onSettled) {
+      return next();
+    }
+    return next().then((data) => {
+      onSuccess?.(data, ctx.params);
+      onSettled?.(data, undefined, ctx.params);
+      return data;
+    }, (error) => {
+      onError?.(error, ctx.params);
+      onSettled?.(undefined, error, ctx.params);
+      throw error;
+    });
+  });
+
+  const totalTimeout = named<F>('timeout', (ctx, next) => {
+    if (timeout > 0 && timeoutScope === 'total') {
+      return nextWithTimeout(ctx, next);
+    }
+    return next();
+  });
+
+  const latest = createTakeLatestPromiseFn(
+    (task: { key: string; run: (signal: AbortSignal) => Promise<any> }, signal: AbortSignal) => task.run(signal),
+    debounceDimension === DIMENSIONS.FUNCTION
+      ? () => DEFAULT_PROMISE_DEBOUNCE_KEY
+      : (task: { key: string }) => task.key,
+    true,
+  );
+  const takeLatestMiddleware = named<F>('takeLatest', (ctx, next) => {
+    if (!takeLatest) {
+      return next();
+    }
+    return latest({ key: ctx.key, run: signal => next({ signal }) }, ctx.signal) as Promise<PickPromiseType<F>>;
+  });
+
+  const retry = named<F>('retry', async (ctx, next) => {
+    for (let currentAttempt = 1; ; currentAttempt++) {
+      throwIfAborted(ctx.signal);
+      try {
+        return await next({ attempt: currentAttempt });
+      } catch (error) {
+        // an aborted call is never retried
+        throwIfAborted(ctx.signal);
+        // Check if we should retry based on retryStrategy
+        const { retry: shouldRetry, delay } = normalizeRetryDecision(retryStrategy(error, currentAttempt));
+
+        // If retryCount is specified (deprecated), also check against it
+        const withinRetryCountLimit = retryCount === 0 || currentAttempt <= retryCount;
+
+        if (!shouldRetry || !withinRetryCountLimit) {
+          throw error;
+        }
+        onRetry?.(error, currentAttempt);
+        if (delay > 0) {
+          // aborting the call also cancels the pending delay
+          await delayWithSignal(delay, ctx.signal);
+        }
+      }
+    }
+  });
+
+  const rateLimit = named<F>('rateLimit', async (ctx, next) => {
+    if (rateLimiter) {
+      await rateLimiter.acquire({
+        maxWait: rateLimitMaxWait,
+        signal: ctx.signal,
+        onRateLimited: wait => onRateLimited?.(wait, ctx.params),
+      });
+    }
+    return next();
+  });
+
+  const attemptTimeout = named<F>('attemptTimeout', (ctx, next) => {
+    if (timeout > 0 && timeoutScope === 'attempt') {
+      return nextWithTimeout(ctx, next);
+    }
+    return next();
+  });
+
+  return [
+    cache,
+    singleMiddleware,
+    throttle,
+    debounce,
+    beforeRunMiddleware,
+    circuitBreakerMiddleware,
+    cacheWrite,
+    state,
+    poolMiddleware,
+    lifecycle,
+    totalTimeout,
+    takeLatestMiddleware,
+    retry,
+    rateLimit,
+    attemptTimeout,
+  ];
+}
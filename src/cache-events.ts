@@ -0,0 +1,49 @@
+import type { AnyFn } from "./common";
+import type { AnyCacheManager } from "./cache-manager";
+
+/**
+ * Change made to a cache through an enhanced function, broadcast to every
+ * other user of the same cache manager (e.g. mounted `useAsync` hooks
+ * sharing an `id`).
+ */
+export type CacheEvent<T = any> =
+  | { type: 'set'; key: string; value: T }
+  /** `key` is undefined when every key was invalidated */
+  | { type: 'invalidate'; key?: string };
+
+export type CacheEventListener<T = any> = (event: CacheEvent<T>) => void;
+
+const listenersMap = new WeakMap<AnyCacheManager<any>, Set<CacheEventListener>>();
+
+export function subscribeCacheEvents<T>(
+  manager: AnyCacheManager<T>,
+  listener: CacheEventListener<T>,
+): () => void {
+  let listeners = listenersMap.get(manager);
+  if (!listeners) {
+    listeners = new Set();
+    listenersMap.set(manager, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners!.delete(listener);
+  };
+}
+
+export function emitCacheEvent<T>(manager: AnyCacheManager<T>, event: CacheEvent<T>): void {
+  listenersMap.get(manager)?.forEach(listener => listener(event));
+}
+
+const managerOfFn = new WeakMap<AnyFn, AnyCacheManager<any>>();
+
+/**
+ * Remember the cache manager an enhanced function resolved, so that code
+ * holding only the function (e.g. `useAsync`) can listen to its cache.
+ */
+export function bindCacheManager(fn: AnyFn, manager: AnyCacheManager<any>): void {
+  managerOfFn.set(fn, manager);
+}
+
+export function cacheManagerOf<T = any>(fn: AnyFn): AnyCacheManager<T> | undefined {
+  return managerOfFn.get(fn);
+}
@@ -1,12 +1,20 @@
+/** A cache entry returned by `CacheManager.get`. */
+export interface CacheHit<T = unknown> {
+  value: T;
+  /** ms since the entry was written */
+  age?: number;
+}
+
 /**
  * Pluggable cache strategy contract used by `createAsync` / `useAsync`.
  *
- * Built-in implementations: `WeakMapCacheManager` (default, keyed by fnProxy)
- * and `IdCacheManager` (module-level, keyed by stable string id).
+ * Built-in implementations: `WeakMapCacheManager` (default, keyed by fnProxy),
+ * `IdCacheManager` (module-level, keyed by stable string id) and
+ * `StorageCacheManager` (`localStorage` / `sessionStorage`).
  *
  * Users may supply their own via `createAsync({ cacheManager: ... })` to back
- * the cache with `localStorage`, `IndexedDB`, an in-memory adapter with
- * different eviction, etc.
+ * the cache with a remote store, an in-memory adapter with different eviction,
+ * etc.
  */
 export interface CacheManager<T = unknown> {
   /**
@@ -16,8 +24,11 @@ export interface CacheManager<T = unknown> {
    *          `undefined` / any other falsy value), or `null` on miss.
    *          The wrapper is what distinguishes "no entry" from "entry whose
    *          stored value happens to be null".
+   *          `age` is the number of ms since the entry was written, compared
+   *          to `staleTime`; managers that do not track it may omit it, and
+   *          such entries are treated as stale.
    */
-  get(key: string): { value: T } | null;
+  get(key: string): CacheHit<T> | null;
 
   /**
    * Write a cache entry. Implementations may apply their own
@@ -39,3 +50,33 @@ export interface CacheManager<T = unknown> {
    */
   clearExpired?(): void;
 }
+
+/**
+ * Variant of {@link CacheManager} for stores that can only be read
+ * asynchronously: IndexedDB, the file system, a remote key-value store...
+ *
+ * Built-in implementation: `IndexedDBCacheManager`.
+ *
+ * Pass it as `cacheManager` like a synchronous one. createAsync awaits
+ * lookups before deciding between returning the cached value, revalidating
+ * it and calling the function, but does not wait for writes and deletes.
+ */
+export interface AsyncCacheManager<T = unknown> {
+  /** Read a cache entry, see `CacheManager.get`. */
+  get(key: string): Promise<CacheHit<T> | null>;
+
+  /** Write a cache entry, see `CacheManager.set`. */
+  set(key: string, data: T): Promise<void>;
+
+  /** Remove a single entry. */
+  delete(key: string): Promise<void>;
+
+  /** Drop every entry in this cache. */
+  clear(): Promise<void>;
+
+  /** Sweep expired entries, see `CacheManager.clearExpired`. */
+  clearExpired?(): Promise<void>;
+}
+
+/** A synchronous or asynchronous cache manager. */
+export type AnyCacheManager<T = unknown> = CacheManager<T> | AsyncCacheManager<T>;
@@ -0,0 +1,124 @@
+import type { AnyCacheManager } from "./cache-manager";
+import { emitCacheEvent } from "./cache-events";
+import { StaleKeys } from "./stale-keys";
+import { ignoreCacheResult } from "./maybe-async";
+
+interface ManagerTags {
+  /** tag → keys of the entries carrying it */
+  keysByTag: Map<string, Set<string>>;
+  /** key → tags of its entry, to untag it when it is written again */
+  tagsByKey: Map<string, string[]>;
+}
+
+interface ManagerRef {
+  deref(): AnyCacheManager<any> | undefined;
+}
+
+const tagsMap = new WeakMap<AnyCacheManager<any>, ManagerTags>();
+// Managers with tagged entries. Held weakly where possible: the default
+// WeakMapCacheManager of a function must not outlive it.
+const managerRefs = new Set<ManagerRef>();
+
+function createManagerRef(manager: AnyCacheManager<any>): ManagerRef {
+  if (typeof WeakRef !== "undefined") {
+    return new WeakRef(manager);
+  }
+  return { deref: () => manager };
+}
+
+/**
+ * Record the tags of the entry `key` of `manager`, replacing the tags it
+ * was written with before.
+ */
+export function tagCacheEntry(manager: AnyCacheManager<any>, key: string, tags: string[]): void {
+  let managerTags = tagsMap.get(manager);
+  if (!managerTags) {
+    managerTags = { keysByTag: new Map(), tagsByKey: new Map() };
+    tagsMap.set(manager, managerTags);
+    managerRefs.add(createManagerRef(manager));
+  }
+  untag(managerTags, key);
+  if (!tags.length) return;
+  managerTags.tagsByKey.set(key, tags);
+  tags.forEach((tag) => {
+    if (!managerTags!.keysByTag.has(tag)) {
+      managerTags!.keysByTag.set(tag, new Set());
+    }
+    managerTags!.keysByTag.get(tag)!.add(key);
+  });
+}
+
+/**
+ * Drop the tags of the entry `key` of `manager`, or of every entry when
+ * omitted, once the entry is gone (cleared, or evicted or expired), so that
+ * tag sets only hold keys that may still be cached.
+ */
+export function untagCacheEntry(manager: AnyCacheManager<any>, key?: string): void {
+  const managerTags = tagsMap.get(manager);
+  if (!managerTags) return;
+  if (key === undefined) {
+    managerTags.keysByTag.clear();
+    managerTags.tagsByKey.clear();
+    return;
+  }
+  untag(managerTags, key);
+}
+
+function untag(managerTags: ManagerTags, key: string): void {
+  managerTags.tagsByKey.get(key)?.forEach((tag) => {
+    const keys = managerTags.keysByTag.get(tag);
+    keys?.delete(key);
+    if (!keys?.size) {
+      managerTags.keysByTag.delete(tag);
+    }
+  });
+  managerTags.tagsByKey.delete(key);
+}
+
+export interface InvalidateTagsOptions {
+  /**
+   * delete the matching entries instead of marking them stale
+   * @default false
+   */
+  clear?: boolean;
+}
+
+/**
+ * Invalidate every cache entry carrying one of `tags`, whichever function
+ * and cache manager (default, `id`-based or custom) it was written through.
+ *
+ * Entries are marked stale (see `fnProxy.invalidate`) or, with `clear`,
+ * deleted. Mounted `useAsync` hooks rendering one of them refetch in the
+ * background.
+ *
+ * @example
+ * ```typescript
+ * const getUser = createAsync(fetchUser, { ttl: 60_000, tags: (params) => [`user:${params[0]}`] });
+ * const getPosts = createAsync(fetchPosts, { ttl: 60_000, tags: (params) => [`user:${params[0]}`] });
+ *
+ * await saveUser('42', changes);
+ * invalidateTags(['user:42']);
+ * ```
+ */
+export function invalidateTags(tags: string[], { clear = false }: InvalidateTagsOptions = {}): void {
+  managerRefs.forEach((ref) => {
+    const manager = ref.deref();
+    if (!manager) {
+      managerRefs.delete(ref);
+      return;
+    }
+    const managerTags = tagsMap.get(manager)!;
+    const keys = new Set<string>();
+    tags.forEach(tag => managerTags.keysByTag.get(tag)?.forEach(key => keys.add(key)));
+
+    keys.forEach((key) => {
+      if (clear) {
+        untag(managerTags, key);
+        ignoreCacheResult(manager.delete(key));
+      } else {
+        StaleKeys.forManager(manager).invalidate(key);
+      }
+      emitCacheEvent(manager, { type: 'invalidate', key });
+    });
+  });
+}
@@ -0,0 +1,201 @@
+import { isDev } from "./common";
+import { AbortError, CircuitOpenError } from "./errors";
+
+export interface CircuitBreakerOptions {
+  /**
+   * number of consecutive failed executions that opens the circuit. default is 5
+   */
+  failureThreshold?: number;
+  /**
+   * milliseconds the circuit stays open before letting trial calls through.
+   * default is 30000
+   */
+  resetTimeout?: number;
+  /**
+   * maximum number of trial calls running at the same time while half-open.
+   * default is 1
+   */
+  halfOpenMax?: number;
+}
+
+/**
+ * - 'closed': calls go through, failures are counted
+ * - 'open': calls are rejected with a `CircuitOpenError`
+ * - 'half-open': up to `halfOpenMax` trial calls go through; the first one to
+ *   succeed closes the circuit, the first one to fail opens it again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  /** consecutive failed executions */
+  failures: number;
+  /** when the circuit last opened, 0 = never */
+  openedAt: number;
+}
+
+export type CircuitBreakerListener = (snapshot: CircuitBreakerSnapshot) => void;
+
+export interface CircuitBreakerRunOptions {
+  /**
+   * a call failing after its signal was aborted is not counted as a failure
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Stops calling an upstream that keeps failing. After `failureThreshold`
+ * consecutive failures the circuit opens and calls are rejected right away;
+ * after `resetTimeout` a few trial calls decide whether it closes again.
+ *
+ * Use {@link CircuitBreaker.forResource} (or `createCircuitBreaker`) to share
+ * one breaker between every enhanced function hitting the same upstream.
+ */
+export class CircuitBreaker {
+  private static instances = new Map<string, CircuitBreaker>();
+
+  readonly failureThreshold: number;
+  readonly resetTimeout: number;
+  readonly halfOpenMax: number;
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  /** trial calls in flight, started while half-open */
+  private trials = 0;
+  private listeners = new Set<CircuitBreakerListener>();
+
+  constructor({ failureThreshold = 5, resetTimeout = 30000, halfOpenMax = 1 }: CircuitBreakerOptions = {}) {
+    if (!(failureThreshold >= 1) || !(resetTimeout >= 0) || !(halfOpenMax >= 1)) {
+      throw new Error(
+        'great-async: circuit breaker needs failureThreshold >= 1, resetTimeout >= 0 and halfOpenMax >= 1'
+      );
+    }
+    this.failureThreshold = failureThreshold;
+    this.resetTimeout = resetTimeout;
+    this.halfOpenMax = halfOpenMax;
+  }
+
+  /**
+   * Get the breaker for `resource`, creating it on first call.
+   *
+   * Subsequent calls with the same `resource` return the **same instance**.
+   * If a later call passes different options, the first registration wins
+   * and we emit a dev warning.
+   */
+  static forResource(resource: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+    const existing = CircuitBreaker.instances.get(resource);
+    if (existing) {
+      const requested = new CircuitBreaker(options);
+      if (isDev
+        && (existing.failureThreshold !== requested.failureThreshold
+          || existing.resetTimeout !== requested.resetTimeout
+          || existing.halfOpenMax !== requested.halfOpenMax)) {
+        console.warn(
+          `[great-async] Circuit breaker resource "${resource}" was first registered with ` +
+          `{failureThreshold: ${existing.failureThreshold}, resetTimeout: ${existing.resetTimeout}, ` +
+          `halfOpenMax: ${existing.halfOpenMax}}, but is now being requested with ` +
+          `{failureThreshold: ${requested.failureThreshold}, resetTimeout: ${requested.resetTimeout}, ` +
+          `halfOpenMax: ${requested.halfOpenMax}}. The first registration's settings will be used.`
+        );
+      }
+      return existing;
+    }
+    const breaker = new CircuitBreaker(options);
+    CircuitBreaker.instances.set(resource, breaker);
+    return breaker;
+  }
+
+  /**
+   * Current state. An open circuit turns half-open once `resetTimeout` has
+   * passed, which is noticed (and reported to listeners) when read.
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return { state: this.state, failures: this.failures, openedAt: this.openedAt };
+  }
+
+  /**
+   * Listen to state changes.
+   * @returns unsubscribe
+   */
+  subscribe(listener: CircuitBreakerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Close the circuit and forget past failures. */
+  reset(): void {
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * Run `task` if the circuit lets it through, otherwise reject with a
+   * `CircuitOpenError` without calling it.
+   */
+  run<T>(task: () => Promise<T>, { signal }: CircuitBreakerRunOptions = {}): Promise<T> {
+    const state = this.state;
+    if (state === 'open') {
+      return Promise.reject(new CircuitOpenError(this.openedAt + this.resetTimeout - Date.now()));
+    }
+    if (state === 'half-open' && this.trials >= this.halfOpenMax) {
+      return Promise.reject(new CircuitOpenError(0));
+    }
+    const trial = state === 'half-open';
+    if (trial) {
+      this.trials++;
+    }
+    return task().then((result) => {
+      if (trial) {
+        this.trials--;
+      }
+      this.failures = 0;
+      if (this.currentState === 'half-open') {
+        this.transition('closed');
+      }
+      return result;
+    }, (error) => {
+      if (trial) {
+        this.trials--;
+      }
+      // cancelled calls say nothing about the upstream
+      if (!signal?.aborted && !(error instanceof AbortError)) {
+        this.recordFailure();
+      }
+      throw error;
+    });
+  }
+
+  private recordFailure() {
+    this.failures++;
+    if (this.currentState === 'half-open'
+      || (this.currentState === 'closed' && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState) {
+    if (this.currentState === state) return;
+    this.currentState = state;
+    const snapshot = { state, failures: this.failures, openedAt: this.openedAt };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Get the shared circuit breaker for `resource`. Every enhanced function
+ * created with the returned breaker (`createAsync(fn, { circuitBreaker: breaker })`)
+ * opens and closes together.
+ */
+export function createCircuitBreaker(resource: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+  return CircuitBreaker.forResource(resource, options);
+}
@@ -67,3 +67,95 @@ export class AsyncResolveResult<T = any> {
 }
 
 
+
+/**
+ * Create an AbortController that also aborts (with the same reason) whenever
+ * `upstream` does.
+ */
+export function createLinkedAbortController(upstream?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (upstream) {
+    if (upstream.aborted) {
+      controller.abort(upstream.reason);
+    } else {
+      upstream.addEventListener('abort', () => controller.abort(upstream.reason), { once: true });
+    }
+  }
+  return controller;
+}
+
+/** Abort signal of an execution shared by several calls. */
+export interface SharedAbortController {
+  signal: AbortSignal;
+  /** Count a call sharing the execution, through its own signal. */
+  join(signal: AbortSignal): void;
+}
+
+/**
+ * Create a controller that aborts, with the last reason, once every call
+ * that joined it has aborted — so that one caller giving up does not abort
+ * the execution the others still wait for.
+ */
+export function createSharedAbortController(): SharedAbortController {
+  const controller = new AbortController();
+  let active = 0;
+  return {
+    signal: controller.signal,
+    join(signal) {
+      if (signal.aborted) {
+        if (!active) controller.abort(signal.reason);
+        return;
+      }
+      active++;
+      signal.addEventListener('abort', () => {
+        active--;
+        if (!active) controller.abort(signal.reason);
+      }, { once: true });
+    },
+  };
+}
+
+/**
+ * Reject with the signal's reason if it has already been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+}
+
+/**
+ * Settle with `promise`, unless `signal` aborts first — in which case reject
+ * with the signal's reason. The underlying work is not stopped; it is up to
+ * whoever owns the signal to observe it.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+/**
+ * Resolve after `time` ms, or reject with the signal's reason as soon as it
+ * aborts (the pending timer is cleared).
+ */
+export function delayWithSignal(time: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, time);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,11 +1,28 @@
 import type { PickPromiseType, PromiseFunction, AsyncError } from "./common";
-import { AsyncResolveResult, AsyncResolveToken, defaultGenKeyByParams, isDev } from "./common";
-import { DEFAULT_PROMISE_DEBOUNCE_KEY, DEFAULT_SINGLE_KEY, DEFAULT_TIMER_KEY, DIMENSIONS, TokenManager } from "./token-manager";
+import { defaultGenKeyByParams, isDev, raceWithSignal } from "./common";
+import { AbortError } from "./errors";
+import type { RetryStrategy } from "./retry-strategy";
 import type { T_DIMENSIONS } from "./token-manager";
-import { createTakeLatestPromiseFn } from "./take-latest-promise";
-import type { CacheManager } from "./cache-manager";
+import type { AnyCacheManager } from "./cache-manager";
+import { ignoreCacheResult, mapMaybePromise } from "./maybe-async";
 import { WeakMapCacheManager } from "./weak-map-cache-manager";
 import { IdCacheManager } from "./id-cache-manager";
+import { Pool } from "./pool";
+import { RateLimiter } from "./rate-limiter";
+import type { RateLimitOptions } from "./rate-limiter";
+import { CircuitBreaker } from "./circuit-breaker";
+import type { CircuitBreakerOptions } from "./circuit-breaker";
+import { composeMiddlewares } from "./middleware";
+import type { AsyncContext, AsyncMiddleware, BuiltinMiddleware } from "./middleware";
+import { createBuiltinMiddlewares } from "./builtin-middlewares";
+import { AsyncStateStore } from "./async-state";
+import type { AsyncState, AsyncStateListener } from "./async-state";
+import { bindCacheManager, emitCacheEvent } from "./cache-events";
+import { tagCacheEntry, untagCacheEntry } from "./cache-tags";
+import { bindOptimisticWriter } from "./optimistic-update";
+import { StaleKeys, isPastStaleTime } from "./stale-keys";
+import { poll } from "./poll";
+import type { PollHandle, PollOptions } from "./poll";
 
 export { DIMENSIONS } from "./token-manager";
 // Re-export for backward compatibility
@@ -13,8 +30,13 @@ export { CacheData } from "./common";
 
 type Timer = ReturnType<typeof setTimeout>;
 
+/** Whether `manager` is a built-in one that stores nothing, so has nothing to tag. */
+function cachesNothing(manager: AnyCacheManager): boolean {
+  return (manager instanceof IdCacheManager || manager instanceof WeakMapCacheManager)
+    && manager.cachingDisabled;
+}
 
-function createClearExpiredCache(getCm: () => CacheManager) {
+function createClearExpiredCache(getCm: () => AnyCacheManager) {
   let timer: Timer | null = null;
   return function clearExpiredCache() {
     if (timer) {
@@ -22,7 +44,7 @@ function createClearExpiredCache(getCm: () => CacheManager) {
     }
     // put operation into micro event loop, so it will not impact the main process
     timer = setTimeout(() => {
-      getCm().clearExpired?.();
+      ignoreCacheResult(getCm().clearExpired?.());
     });
   };
 }
@@ -40,6 +62,38 @@ export interface CreateAsyncOptions<
    * dimension of debounce, default is DIMENSIONS.FUNCTION
    */
   debounceDimension?: T_DIMENSIONS;
+  /**
+   * also execute on the leading edge: the first call of a burst runs right
+   * away, the calls following it within `debounceTime` are folded into one
+   * trailing execution (lodash `leading: true`). default is false
+   */
+  debounceLeading?: boolean;
+  /**
+   * maximum time a burst of calls may postpone the execution, in
+   * milliseconds (lodash `maxWait`). default is -1, which means no limit
+   */
+  debounceMaxWait?: number;
+  /**
+   * throttle time config: at most one execution per window of this many
+   * milliseconds. Calls inside a window resolve with the result of the
+   * execution they were folded into. default value is -1 which means no
+   * throttle feature. Takes precedence over `debounceTime`.
+   */
+  throttleTime?: number;
+  /**
+   * dimension of throttle, default is DIMENSIONS.FUNCTION
+   */
+  throttleDimension?: T_DIMENSIONS;
+  /**
+   * execute on the leading edge of the window, default is true
+   */
+  throttleLeading?: boolean;
+  /**
+   * execute on the trailing edge of the window, with the params of the last
+   * call made in it, default is true.
+   * When false, calls inside the window share the leading execution.
+   */
+  throttleTrailing?: boolean;
   /**
    * time to live of cache, default is -1
    */
@@ -67,14 +121,28 @@ export interface CreateAsyncOptions<
    * retry strategy, if return value is true, it will retry to call function
    * @param error - the error that occurred
    * @param currentRetryCount - current retry attempt number (1-based)
-   * @returns
+   * @returns `true` / `false` to retry immediately or give up, a number of
+   * milliseconds to wait before retrying, or `{ retry, delay }`.
+   * See `exponentialBackoff` for a ready-made strategy.
    */
-  retryStrategy?: (error: AsyncError, currentRetryCount: number) => boolean;
+  retryStrategy?: RetryStrategy;
   /**
    * cache capacity, cache removal strategy using LRU algorithm
    * default value is -1, means no cache size limit
    */
   cacheCapacity?: number;
+  /**
+   * maximum total size of the cached values, as estimated by `sizeOf`. The
+   * least recently used entries are evicted until the total fits; a value
+   * larger than the limit is not cached.
+   * default value is -1, means no limit
+   */
+  maxCacheBytes?: number;
+  /**
+   * estimate the size of a cached value for `maxCacheBytes`.
+   * default is `defaultSizeOf`, the length of its JSON
+   */
+  sizeOf?: (value: PickPromiseType<F>) => number;
 
   beforeRun?: () => any;
   /**
@@ -86,10 +154,29 @@ export interface CreateAsyncOptions<
   takeLatest?: boolean;
   /**
    * Enable stale-while-revalidate pattern
-   * When true, if cache exists, return cached data immediately and update cache in background
+   * When true, if cache exists, return cached data immediately and update cache in background.
+   * Entries marked stale by `invalidate` behave this way regardless.
    * @default false
    */
   swr?: boolean;
+  /**
+   * How long, in ms, a cached value stays fresh. Cache hits younger than
+   * this are returned as-is; older ones are returned and revalidated in the
+   * background, with or without `swr`. `ttl` still decides when entries are
+   * dropped, so `staleTime` should be lower than `ttl`.
+   * default is -1: with `swr` every hit is revalidated, without it none is
+   */
+  staleTime?: number;
+  /**
+   * With SWR revalidation (`swr`, `staleTime` or `invalidate`), start at
+   * most one background update per key every `dedupingInterval` ms, whether
+   * or not `single` is on. Calls within the interval return the cached value
+   * and share the pending update; `onBackgroundUpdateStart` and
+   * `onBackgroundUpdate` fire once for it. Functions sharing a cache (same
+   * `id` or `cacheManager`) share their updates too.
+   * default is -1, which means every call may start one
+   */
+  dedupingInterval?: number;
   /**
    * Callback when background update starts
    * @param cachedData The cached data being returned immediately
@@ -101,13 +188,64 @@ export interface CreateAsyncOptions<
    * @param error The error if update failed (undefined if successful)
    */
   onBackgroundUpdate?: (data: PickPromiseType<F> | undefined, error: AsyncError | undefined) => void;
+  /**
+   * Called when an execution of `fn` succeeds (retries included).
+   * Calls folded into one execution by debounce, throttle or single share
+   * a single invocation.
+   * @param data The resolved value
+   * @param params The params the execution ran with
+   */
+  onSuccess?: (data: PickPromiseType<F>, params: Parameters<F>) => void;
+  /**
+   * Called when an execution of `fn` fails for good, once retries are
+   * exhausted. Like `onSuccess`, invoked once per execution.
+   * @param error The error the execution rejected with
+   * @param params The params the execution ran with
+   */
+  onError?: (error: AsyncError, params: Parameters<F>) => void;
+  /**
+   * Called after `onSuccess` / `onError`, once per execution
+   * @param data The resolved value (undefined if error occurred)
+   * @param error The error (undefined if successful)
+   * @param params The params the execution ran with
+   */
+  onSettled?: (
+    data: PickPromiseType<F> | undefined,
+    error: AsyncError | undefined,
+    params: Parameters<F>,
+  ) => void;
+  /**
+   * Called when a call is answered from the cache instead of executing `fn`
+   * (with `swr`, before the background update starts)
+   * @param key The cache key of the call's params
+   * @param value The cached value
+   */
+  onCacheHit?: (key: string, value: PickPromiseType<F>) => void;
+  /**
+   * Called when a failed attempt is going to be retried, before the retry delay
+   * @param error The error of the failed attempt
+   * @param attempt The number of the failed attempt (1-based), as passed to `retryStrategy`
+   */
+  onRetry?: (error: AsyncError, attempt: number) => void;
+  /**
+   * Called when a `prefetch` fails, since `prefetch` itself never rejects
+   * @param error The error the execution rejected with
+   * @param params The params passed to `prefetch`
+   */
+  onPrefetchError?: (error: AsyncError, params: Parameters<F>) => void;
+  /**
+   * Tags of the cached entries, for `invalidateTags`. Either a static list,
+   * or computed from the params and the result of each entry.
+   */
+  tags?: string[] | ((params: Parameters<F>, result: PickPromiseType<F>) => string[]);
   /**
    * Stable cache identifier. When provided, the cache uses a module-level store
    * keyed by this id instead of the default WeakMap<fnProxy> strategy.
    * This allows cache to survive component mount/unmount cycles (e.g. page navigation).
    *
-   * Caching is OFF by default — you must also set `ttl` or `cacheCapacity` for
-   * entries to be retained, matching the default (WeakMap) strategy.
+   * Caching is OFF by default — you must also set `ttl`, `cacheCapacity` or
+   * `maxCacheBytes` for entries to be retained, matching the default (WeakMap)
+   * strategy.
    */
   id?: string;
   /**
@@ -115,12 +253,110 @@ export interface CreateAsyncOptions<
    * delegated to this manager.
    *
    * - Takes precedence over `id` (which is ignored, with a dev warning).
-   * - The `ttl` and `cacheCapacity` options become the manager's responsibility:
+   * - The `ttl`, `cacheCapacity` and `maxCacheBytes` options become the
+   *   manager's responsibility:
    *   createAsync will invoke `clearExpired()` on every call but otherwise does
    *   not interpret these options. The manager is fully responsible for
    *   expiration, capacity, and any other policy.
+   * - It may be an `AsyncCacheManager`, whose lookups are awaited.
    */
-  cacheManager?: CacheManager<PickPromiseType<F>>;
+  cacheManager?: AnyCacheManager<PickPromiseType<F>>;
+  /**
+   * Pass the call's `AbortSignal` to `fn` as an extra trailing argument,
+   * after the params the call was made with.
+   *
+   * Every call is abortable regardless (the returned promise rejects with an
+   * `AbortError`); this only controls whether `fn` gets to observe the signal
+   * and stop its own work, e.g. by forwarding it to `fetch`.
+   * @default false
+   */
+  withSignal?: boolean;
+  /**
+   * Reject with a `TimeoutError` when the call takes longer than this many
+   * milliseconds. Default is -1, which means no timeout.
+   *
+   * The signal passed to `fn` (see `withSignal`) is aborted with the
+   * `TimeoutError` as well.
+   */
+  timeout?: number;
+  /**
+   * What `timeout` applies to, default is 'attempt'
+   * - 'attempt': every attempt separately. A timed out attempt is handed to
+   *   `retryStrategy` like any other error, so timeouts can be retried.
+   * - 'total': the whole call, including retries and retry delays. Once it
+   *   fires no further attempts are made.
+   */
+  timeoutScope?: 'attempt' | 'total';
+  /**
+   * maximum number of executions of this function running at the same time.
+   * Excess calls wait in a queue. default is -1, which means no limit.
+   */
+  maxConcurrent?: number;
+  /**
+   * Execution pool (see `createPool`) shared with other createAsync
+   * instances. Takes precedence over `maxConcurrent`.
+   *
+   * Calls waiting for a slot still take part in `single` dedupe, and read
+   * the cache again once they get a slot.
+   */
+  pool?: Pool;
+  /**
+   * priority of this function's calls in the pool queue, higher starts first.
+   * default is 0
+   */
+  priority?: number | ((params: Parameters<F>) => number);
+  /**
+   * Token-bucket rate limit applied to every attempt (retries included).
+   * Calls over budget wait for a token instead of failing.
+   *
+   * Pass `{ limit, interval }` for a budget private to this function, or a
+   * limiter from `createRateLimiter(resource, ...)` to share one budget
+   * between every function hitting the same resource.
+   */
+  rateLimit?: RateLimitOptions | RateLimiter;
+  /**
+   * reject with a `RateLimitError` instead of waiting longer than this many
+   * milliseconds for the rate limit. default is -1, which means no limit
+   */
+  rateLimitMaxWait?: number;
+  /**
+   * Called when a call has to wait for the rate limit
+   * @param wait How long the call will wait, in milliseconds
+   * @param params The params of the call
+   */
+  onRateLimited?: (wait: number, params: Parameters<F>) => void;
+  /**
+   * Stop calling `fn` once it keeps failing: after `failureThreshold`
+   * consecutive failed executions (retries included) calls reject right away
+   * with a `CircuitOpenError`, until a trial call succeeds `resetTimeout` ms
+   * later.
+   *
+   * Pass options for a breaker private to this function, or a breaker from
+   * `createCircuitBreaker(resource, ...)` to share it between every function
+   * hitting the same upstream.
+   */
+  circuitBreaker?: CircuitBreakerOptions | CircuitBreaker;
+  /**
+   * while the circuit is open, resolve with the last result for the params
+   * instead of rejecting, when there is one. default is false
+   */
+  circuitBreakerServeStale?: boolean;
+  /**
+   * Custom middlewares, see `AsyncMiddleware`.
+   *
+   * - An array is run innermost, right around `fn` — after the built-in
+   *   features, once per attempt.
+   * - A function receives the built-in middlewares in their default order
+   *   (each tagged with its `middlewareName`) and returns the full pipeline,
+   *   so built-ins can be reordered, replaced or left out.
+   */
+  use?: AsyncMiddleware<F>[] | ((builtins: BuiltinMiddleware<F>[]) => AsyncMiddleware<F>[]);
+}
+
+export interface Invalidate<F extends PromiseFunction> {
+  // eslint-disable-next-line @typescript-eslint/unified-signatures
+  (...params: Parameters<F>): void;
+  (): void;
 }
 
 export interface ClearCache<F extends PromiseFunction> {
@@ -131,7 +367,77 @@ export interface ClearCache<F extends PromiseFunction> {
 
 export type ReturnTypeOfCreateAsync<F extends PromiseFunction> = {
   (...arg: Parameters<F>): ReturnType<F>;
+  /**
+   * Remove the cached value of these params (of every params when omitted).
+   */
   clearCache: ClearCache<F>;
+  /**
+   * Mark the cached value of these params (of every params when omitted)
+   * stale. Unlike `clearCache`, the value is kept: the next call returns it
+   * and revalidates in the background, as with `swr`. Mounted `useAsync`
+   * hooks sharing the cache refetch in the background.
+   */
+  invalidate: Invalidate<F>;
+  /**
+   * Run the function for these params through the usual pipeline to fill the
+   * cache ahead of time, e.g. from a route loader or a link hover handler.
+   * Skipped when a fresh value is cached (not invalidated, nor older than
+   * `staleTime`). Never rejects: errors go to `onPrefetchError`.
+   */
+  prefetch: (...params: Parameters<F>) => Promise<void>;
+  /**
+   * Call the function with these params every `interval` ms, e.g. to follow
+   * a job's status, until `until` is satisfied, `maxAttempts` is reached or
+   * the returned handle is stopped. Every call refreshes the cache instead of
+   * reading it. Results are available through `onResult` or by iterating the
+   * handle with `for await`.
+   */
+  poll: (
+    params: Parameters<F>,
+    options: PollOptions<PickPromiseType<F>>,
+  ) => PollHandle<PickPromiseType<F>>;
+  /**
+   * Write `data` to the cache for these params, e.g. after a successful save.
+   * Mounted `useAsync` hooks sharing the cache (same `id` or `cacheManager`)
+   * re-render with it.
+   */
+  setCache: (params: Parameters<F>, data: PickPromiseType<F>) => void;
+  /**
+   * Like `setCache`, with a value derived from the current one: the cached
+   * value, or else the last result for these params (undefined if none).
+   * With an `AsyncCacheManager`, applied once the cached value was read, and
+   * the returned promise settles then.
+   */
+  updateCache: (
+    params: Parameters<F>,
+    updater: (prev: PickPromiseType<F> | undefined) => PickPromiseType<F>,
+  ) => void | Promise<void>;
+  /**
+   * Abort every pending / in-flight call made with these params. Their
+   * promises reject with an `AbortError` and no further retries are made.
+   * An execution shared with calls made with other params (`single`,
+   * `debounceTime`) keeps running for them.
+   */
+  abort: (...params: Parameters<F>) => void;
+  /**
+   * Abort every pending / in-flight call of this function.
+   */
+  abortAll: () => void;
+  /**
+   * State of the calls made with these params: whether one is in flight,
+   * and how the last one settled.
+   */
+  getState: (...params: Parameters<F>) => AsyncState<PickPromiseType<F>>;
+  /**
+   * Call `listener` with the new state whenever the state of these params
+   * changes. Returns a function removing the listener.
+   */
+  subscribe: (params: Parameters<F>, listener: AsyncStateListener<PickPromiseType<F>>) => () => void;
+  /**
+   * The circuit breaker guarding this function, to read or watch its state;
+   * null without the `circuitBreaker` option.
+   */
+  circuitBreaker: CircuitBreaker | null;
 };
 
 /**
@@ -160,30 +466,27 @@ export type ReturnTypeOfCreateAsync<F extends PromiseFunction> = {
  */
 export function createAsync<F extends PromiseFunction>(
   fn: F,
-  {
-    debounceTime = -1,
-    takeLatest = false,
-    debounceDimension = DIMENSIONS.FUNCTION,
+  options: CreateAsyncOptions<F> = {}
+): ReturnTypeOfCreateAsync<F> {
+  const {
     ttl = -1,
-    single = false,
-    singleDimension = DIMENSIONS.FUNCTION,
-    retryCount = 0,
-    retryStrategy = (error, currentRetryCount) => {
-      // Default behavior: if retryCount is specified, use it; otherwise don't retry
-      return retryCount > 0 ? currentRetryCount <= retryCount : false;
-    },
     genKeyByParams = defaultGenKeyByParams,
     cacheCapacity = -1,
-    beforeRun,
-    swr = false,
-    onBackgroundUpdateStart,
-    onBackgroundUpdate,
+    maxCacheBytes = -1,
+    sizeOf,
     id,
     cacheManager: customCacheManager,
-  }: CreateAsyncOptions<F> = {}
-): ReturnTypeOfCreateAsync<F> {
-  let timerMapOfDebounce = new Map<string | symbol, any>();
-  let promiseHandlerMap = new Map<string | symbol, Promise<any>>();
+    withSignal = false,
+    maxConcurrent = -1,
+    pool,
+    rateLimit,
+    circuitBreaker: circuitBreakerOption,
+    use,
+    onPrefetchError,
+    tags,
+    staleTime = -1,
+  } = options;
+  let abortControllerMap = new Map<string, Set<AbortController>>();
 
   if (isDev && customCacheManager && id) {
     console.warn(
@@ -192,213 +495,208 @@ export function createAsync<F extends PromiseFunction>(
     );
   }
 
+  if (isDev && pool && maxConcurrent !== -1) {
+    console.warn(
+      '[great-async] Both `pool` and `maxConcurrent` were provided. ' +
+      '`maxConcurrent` will be ignored because `pool` takes precedence.'
+    );
+  }
+
+  const executionPool = pool
+    || (maxConcurrent !== -1 ? new Pool({ concurrency: maxConcurrent }) : null);
+
+  const rateLimiter = rateLimit instanceof RateLimiter
+    ? rateLimit
+    : (rateLimit ? new RateLimiter(rateLimit) : null);
+
+  const circuitBreaker = circuitBreakerOption instanceof CircuitBreaker
+    ? circuitBreakerOption
+    : (circuitBreakerOption ? new CircuitBreaker(circuitBreakerOption) : null);
+
   // Pick cache strategy: custom > id-based > default (fnProxy-based).
   // For the default strategy we need fnProxy first, so we defer creation
   // and access the manager through a thunk inside fnProxy.
-  let resolvedManager: CacheManager<PickPromiseType<F>> | null =
+  let resolvedManager: AnyCacheManager<PickPromiseType<F>> | null =
     customCacheManager
-      || (id ? IdCacheManager.forId<PickPromiseType<F>>(id, ttl, cacheCapacity) : null);
+      || (id ? IdCacheManager.forId<PickPromiseType<F>>(id, ttl, cacheCapacity, maxCacheBytes, sizeOf) : null);
 
-  const getCacheManager = (): CacheManager<PickPromiseType<F>> => resolvedManager!;
+  const getCacheManager = (): AnyCacheManager<PickPromiseType<F>> => resolvedManager!;
   const clearExpiredCache = createClearExpiredCache(() => resolvedManager!);
 
-  let listener: {
-    resolve: (arg?: any) => any;
-    reject: (arg?: any) => any;
-    token: string | symbol;
-    key: string | symbol;
-  }[] = [];
-
-  async function retryFn(
-    params: Parameters<F>,
-    currentAttempt: number = 1
-  ): Promise<ReturnType<F>> {
-    try {
-      const res = await fn(...(params as any[]));
-      return res;
-    } catch (error) {
-      // Check if we should retry based on retryStrategy
-      const shouldRetry = retryStrategy(error, currentAttempt);
+  const stateStore = new AsyncStateStore<PickPromiseType<F>>();
 
-      // If retryCount is specified (deprecated), also check against it
-      const withinRetryCountLimit = retryCount === 0 || currentAttempt <= retryCount;
+  const tagEntry = (key: string, params: Parameters<F>, data: PickPromiseType<F>) => {
+    if (!tags || cachesNothing(getCacheManager())) return;
+    tagCacheEntry(getCacheManager(), key, typeof tags === 'function' ? tags(params, data) : tags);
+  };
 
-      if (shouldRetry && withinRetryCountLimit) {
-        return retryFn(params, currentAttempt + 1);
-      }
-      throw error;
+  const builtins = createBuiltinMiddlewares(options, {
+    getCacheManager,
+    clearExpiredCache,
+    tagEntry,
+    pool: executionPool,
+    rateLimiter,
+    circuitBreaker,
+    stateStore,
+  });
+  const middlewares = typeof use === 'function'
+    ? use(builtins)
+    : [...builtins, ...(use || [])];
+
+  const dispatch = composeMiddlewares<F>(middlewares, (ctx) => {
+    const args = withSignal ? [...(ctx.params as any[]), ctx.signal] : ctx.params;
+    return raceWithSignal(fn(...(args as any[])), ctx.signal);
+  });
+
+  function trackController(key: string, controller: AbortController) {
+    if (!abortControllerMap.has(key)) {
+      abortControllerMap.set(key, new Set());
     }
+    abortControllerMap.get(key)!.add(controller);
   }
 
-  let finalFn = retryFn;
-
-  if (takeLatest) {
-    if (debounceDimension === DIMENSIONS.FUNCTION) {
-      finalFn = createTakeLatestPromiseFn(retryFn as any, () => DEFAULT_PROMISE_DEBOUNCE_KEY);
-    } else if (debounceDimension === DIMENSIONS.PARAMETERS) {
-      finalFn = createTakeLatestPromiseFn(retryFn as any, genKeyByParams, true);
+  function untrackController(key: string, controller: AbortController) {
+    const controllers = abortControllerMap.get(key);
+    controllers?.delete(controller);
+    if (!controllers?.size) {
+      abortControllerMap.delete(key);
     }
   }
 
-  const tm = new TokenManager(debounceDimension);
-
-  function fnProxy(...params: Parameters<F>): ReturnType<F> {
+  function run(params: Parameters<F>, revalidating: boolean): Promise<PickPromiseType<F>> {
     const key = genKeyByParams(params);
-    // Each manager decides for itself whether clearing is a no-op.
-    clearExpiredCache();
-    const cache = getCacheManager().get(key);
-
-    // Stale-while-revalidate pattern
-    if (swr && cache) {
-      // Return cached data immediately
-      const cachedPromise = Promise.resolve(cache.value) as ReturnType<F>;
-
-      // Notify that background update is starting
-      onBackgroundUpdateStart?.(cache.value);
-
-      // Start background update through the full execution pipeline
-      // (single dedup, debounce, retry, takeLatest) — so rapid calls
-      // naturally share the same background promise via promiseHandlerMap.
-      const backgroundUpdate = async () => {
-        try {
-          const freshData = await executeAsync();
-          onBackgroundUpdate?.(freshData, undefined);
-        } catch (error) {
-          onBackgroundUpdate?.(undefined, error);
-        }
-      };
-
-      // Start background update without blocking
-      backgroundUpdate();
-
-      return cachedPromise;
-    }
-
-    if (cache) {
-      return Promise.resolve(cache.value) as ReturnType<F>;
-    }
-
-    return executeAsync();
-
-    // Execute the async function with all features (single, debounce, takeLatest, retry)
-    // but without cache/SWR handling. Used by both the normal path and SWR background updates.
-    function executeAsync(): ReturnType<F> {
-      if (single && debounceTime === -1) {
-        if (singleDimension === DIMENSIONS.FUNCTION && promiseHandlerMap.get(DEFAULT_SINGLE_KEY)) {
-          return promiseHandlerMap.get(DEFAULT_SINGLE_KEY)! as ReturnType<F>;
-        }
-        if (singleDimension === DIMENSIONS.PARAMETERS && promiseHandlerMap.get(key)) {
-          return promiseHandlerMap.get(key)! as ReturnType<F>;
-        }
-      }
-      const promiseHandler = new Promise<AsyncResolveToken>((resolve, reject) => {
-        if (debounceTime === -1) {
-          resolve(new AsyncResolveToken(tm.getToken()));
-          tm.refresh();
-          return;
-        }
-
-        listener.push({
-          resolve,
-          reject,
-          token: tm.getToken(key),
-          key: debounceDimension === DIMENSIONS.FUNCTION ? DEFAULT_TIMER_KEY : key,
-        });
-        if (debounceDimension === DIMENSIONS.FUNCTION) {
-          clearTimeout(timerMapOfDebounce.get(DEFAULT_TIMER_KEY));
-          timerMapOfDebounce.set(DEFAULT_TIMER_KEY, setTimeout(() => {
-            resolve(new AsyncResolveToken(tm.getToken()));
-            tm.refresh();
-          }, debounceTime));
-        }
-        if (debounceDimension === DIMENSIONS.PARAMETERS) {
-          clearTimeout(timerMapOfDebounce.get(key));
-          timerMapOfDebounce.set(key, setTimeout(() => {
-            resolve(new AsyncResolveToken(tm.getToken(key)));
-            tm.refresh(key);
-          }, debounceTime));
-        }
-      })
-        .then((arg: any) => {
-          if (arg instanceof AsyncResolveToken) {
-
-            const scopeToken = arg.value;
-
-            beforeRun?.();
-            const runFnPromise = finalFn(params);
-            return runFnPromise
-              .then((res) => {
-                getCacheManager().set(key, res as PickPromiseType<F>);
-                const composeRes = new AsyncResolveResult(res);
-                listener.filter(i => {
-                  if (debounceDimension === DIMENSIONS.FUNCTION) {
-                    return i.token === scopeToken && i.key === DEFAULT_TIMER_KEY;
-                  }
-                  return i.token === scopeToken && i.key === key;
-                }).forEach((i) => {
-                  i.resolve(composeRes);
-                });
-                return res;
-              })
-              .catch((e) => {
-                listener.filter(i => {
-                  if (debounceDimension === DIMENSIONS.FUNCTION) {
-                    return i.token === scopeToken && i.key === DEFAULT_TIMER_KEY;
-                  }
-                  return i.token === scopeToken && i.key === key;
-                }).forEach((i) => {
-                  i.reject(e);
-                });
+    const controller = new AbortController();
+    const background: Promise<unknown>[] = [];
+    trackController(key, controller);
+
+    const ctx: AsyncContext<F> = {
+      params,
+      key,
+      options,
+      signal: controller.signal,
+      attempt: 1,
+      revalidating,
+      waitUntil: promise => background.push(promise),
+    };
+    const promise = dispatch(ctx);
+    // the call stays abortable as long as any of its work is in flight
+    promise
+      .then(() => Promise.allSettled(background), () => Promise.allSettled(background))
+      .then(() => untrackController(key, controller));
+    return promise;
+  }
 
-                throw e;
-              }).finally(() => {
-                listener = listener.filter(i => {
-                  if (debounceDimension === DIMENSIONS.FUNCTION) {
-                    return !(i.token === scopeToken && i.key === DEFAULT_TIMER_KEY);
-                  }
-                  return !(i.token === scopeToken && i.key === key);
-                });
-                if (!listener.find(i => i.key === key)) {
-                  tm.remove(key);
-                }
-              });
-          }
-          if (arg instanceof AsyncResolveResult) {
-            return arg.result;
-          }
-          return arg;
-        })
-        .finally(() => {
-          timerMapOfDebounce.delete(DEFAULT_TIMER_KEY);
-          timerMapOfDebounce.delete(key);
-          promiseHandlerMap.delete(DEFAULT_SINGLE_KEY);
-          promiseHandlerMap.delete(key);
-        });
-      if (singleDimension === DIMENSIONS.FUNCTION) {
-        promiseHandlerMap.set(DEFAULT_SINGLE_KEY, promiseHandler);
-      } else {
-        promiseHandlerMap.set(key, promiseHandler);
-      }
-      return promiseHandler as ReturnType<F>;
-    }
+  function fnProxy(...params: Parameters<F>): ReturnType<F> {
+    return run(params, false) as ReturnType<F>;
   }
 
   // For the default strategy, create WeakMapCacheManager now that fnProxy exists.
   // The thunk getCacheManager() captured by fnProxy / clearExpiredCache will
   // pick this up on first invocation.
   if (!resolvedManager) {
-    resolvedManager = new WeakMapCacheManager<PickPromiseType<F>>(fnProxy, ttl, cacheCapacity);
+    resolvedManager = new WeakMapCacheManager<PickPromiseType<F>>(
+      fnProxy, ttl, cacheCapacity, maxCacheBytes, sizeOf,
+    );
   }
+  bindCacheManager(fnProxy, resolvedManager);
 
   function fnClearCache(...params: Parameters<F>): void;
   function fnClearCache(): void;
   function fnClearCache(...params: Parameters<F>) {
-    if (params.length) {
-      getCacheManager().delete(genKeyByParams(params));
+    const key = params.length ? genKeyByParams(params) : undefined;
+    if (key !== undefined) {
+      ignoreCacheResult(getCacheManager().delete(key));
     } else {
-      getCacheManager().clear();
+      ignoreCacheResult(getCacheManager().clear());
     }
+    StaleKeys.forManager(getCacheManager()).forget(key);
+    untagCacheEntry(getCacheManager(), key);
   }
   fnProxy.clearCache = fnClearCache;
+
+  function fnInvalidate(...params: Parameters<F>): void;
+  function fnInvalidate(): void;
+  function fnInvalidate(...params: Parameters<F>) {
+    const key = params.length ? genKeyByParams(params) : undefined;
+    StaleKeys.forManager(getCacheManager()).invalidate(key);
+    emitCacheEvent(getCacheManager(), { type: 'invalidate', key });
+  }
+  fnProxy.invalidate = fnInvalidate;
+  fnProxy.prefetch = (...params: Parameters<F>): Promise<void> => {
+    const key = genKeyByParams(params);
+    // the executor catches a cache manager throwing synchronously too
+    return new Promise<unknown>((resolve) => {
+      resolve(mapMaybePromise(getCacheManager().get(key), (cached) => {
+        if (cached && !isPastStaleTime(cached, staleTime, false)
+          && !StaleKeys.forManager(getCacheManager()).isStale(key)) {
+          return undefined;
+        }
+        return run(params, true).then(() => undefined, (error) => {
+          onPrefetchError?.(error, params);
+        });
+      }));
+    }).then(() => undefined, (error) => {
+      onPrefetchError?.(error, params);
+    });
+  };
+  fnProxy.poll = (params: Parameters<F>, pollOptions: PollOptions<PickPromiseType<F>>) => (
+    poll(() => run(params, true), pollOptions)
+  );
+  fnProxy.setCache = (params: Parameters<F>, data: PickPromiseType<F>) => {
+    const key = genKeyByParams(params);
+    ignoreCacheResult(getCacheManager().set(key, data));
+    StaleKeys.forManager(getCacheManager()).markFresh(key);
+    tagEntry(key, params, data);
+    stateStore.write(key, data);
+    emitCacheEvent(getCacheManager(), { type: 'set', key, value: data });
+  };
+  fnProxy.updateCache = (
+    params: Parameters<F>,
+    updater: (prev: PickPromiseType<F> | undefined) => PickPromiseType<F>,
+  ) => {
+    const key = genKeyByParams(params);
+    const result = mapMaybePromise(getCacheManager().get(key), (cached) => {
+      fnProxy.setCache(params, updater(cached ? cached.value : stateStore.get(key).data));
+    });
+    ignoreCacheResult(result);
+    return result;
+  };
+  bindOptimisticWriter(fnProxy, (params: Parameters<F>, updater) => {
+    const key = genKeyByParams(params);
+    return mapMaybePromise(getCacheManager().get(key), (cached) => {
+      const previousState = stateStore.get(key);
+      const wasStale = StaleKeys.forManager(getCacheManager()).isStale(key);
+      fnProxy.setCache(params, updater(cached ? cached.value : previousState.data));
+      return () => {
+        if (cached) {
+          fnProxy.setCache(params, cached.value);
+          if (wasStale) {
+            StaleKeys.forManager(getCacheManager()).invalidate(key);
+          }
+          return;
+        }
+        // nothing was cached: the last result must not come back as a fresh entry
+        ignoreCacheResult(getCacheManager().delete(key));
+        StaleKeys.forManager(getCacheManager()).forget(key);
+        untagCacheEntry(getCacheManager(), key);
+        stateStore.restore(key, previousState);
+        emitCacheEvent(getCacheManager(), { type: 'invalidate', key });
+      };
+    });
+  });
+  fnProxy.abort = (...params: Parameters<F>) => {
+    const reason = new AbortError();
+    abortControllerMap.get(genKeyByParams(params))?.forEach(c => c.abort(reason));
+  };
+  fnProxy.abortAll = () => {
+    const reason = new AbortError();
+    abortControllerMap.forEach(controllers => controllers.forEach(c => c.abort(reason)));
+  };
+  fnProxy.getState = (...params: Parameters<F>) => stateStore.get(genKeyByParams(params));
+  fnProxy.subscribe = (
+    params: Parameters<F>,
+    listener: AsyncStateListener<PickPromiseType<F>>,
+  ) => stateStore.subscribe(genKeyByParams(params), listener);
+  fnProxy.circuitBreaker = circuitBreaker;
   return fnProxy;
 }
@@ -0,0 +1,138 @@
+import { createAsync } from "./create-async";
+import type { CreateAsyncOptions, ReturnTypeOfCreateAsync } from "./create-async";
+import { MissingBatchItemError } from "./errors";
+
+export interface CreateBatchedAsyncOptions<K, V>
+  extends Omit<CreateAsyncOptions<(key: K) => Promise<V>>, 'withSignal'> {
+  /**
+   * maximum number of keys per `batchFn` call; a full batch is sent right
+   * away. default is -1, which means no limit
+   */
+  maxBatchSize?: number;
+  /**
+   * how long a batch collects calls, in milliseconds. default is 0: the calls
+   * made in the same tick
+   */
+  batchWindowMs?: number;
+  /**
+   * Key of a result item. When provided, the items returned by `batchFn`
+   * are matched to calls by key, in any order, and keys without an item
+   * reject with a `MissingBatchItemError`. Otherwise `batchFn` must return
+   * one item per key, in the order of the keys, and an `Error` item rejects
+   * the call for its key only.
+   */
+  keyOf?: (item: V) => K;
+}
+
+interface Waiter<V> {
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Create a function loading one item by key, which collects the calls made
+ * within `batchWindowMs` into a single `batchFn(keys)` call and hands each
+ * caller its own item — DataLoader style.
+ *
+ * The result is an enhanced function like `createAsync`'s, and takes the
+ * same options: items are cached, deduplicated and retried per key, and
+ * `id` / `cacheManager` work as usual.
+ *
+ * @param batchFn Loads many items at once. Each key appears only once per batch.
+ * @param options createBatchedAsync options
+ *
+ * @example
+ * ```typescript
+ * const getUser = createBatchedAsync(
+ *   (ids: string[]) => fetch(`/api/users?ids=${ids.join(',')}`).then(r => r.json()),
+ *   { keyOf: user => user.id, maxBatchSize: 50, ttl: 60_000 }
+ * );
+ *
+ * // one request for both
+ * const [alice, bob] = await Promise.all([getUser('alice'), getUser('bob')]);
+ * ```
+ */
+export function createBatchedAsync<K, V>(
+  batchFn: (keys: K[]) => Promise<ReadonlyArray<V | Error>>,
+  options: CreateBatchedAsyncOptions<K, V> = {}
+): ReturnTypeOfCreateAsync<(key: K) => Promise<V>> {
+  const {
+    maxBatchSize = -1,
+    batchWindowMs = 0,
+    keyOf,
+    ...asyncOptions
+  } = options;
+
+  let batch: Map<K, Waiter<V>[]> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function dispatch(waitersByKey: Map<K, Waiter<V>[]>) {
+    const keys = [...waitersByKey.keys()];
+    const settle = (key: K, item: V | Error | undefined, found: boolean) => {
+      waitersByKey.get(key)!.forEach(({ resolve, reject }) => {
+        if (!found) {
+          reject(new MissingBatchItemError(key));
+        } else if (item instanceof Error) {
+          reject(item);
+        } else {
+          resolve(item as V);
+        }
+      });
+    };
+
+    Promise.resolve().then(() => batchFn(keys)).then((items) => {
+      if (keyOf) {
+        const itemsByKey = new Map<K, V | Error>();
+        items.forEach((item) => {
+          if (!(item instanceof Error)) {
+            itemsByKey.set(keyOf(item), item);
+          }
+        });
+        keys.forEach(key => settle(key, itemsByKey.get(key), itemsByKey.has(key)));
+        return;
+      }
+      if (items.length !== keys.length) {
+        throw new Error(
+          `great-async: batchFn returned ${items.length} items for ${keys.length} keys. ` +
+          'Without `keyOf`, it must return one item per key, in order.'
+        );
+      }
+      keys.forEach((key, i) => settle(key, items[i], true));
+    }).catch((error) => {
+      // the whole batch failed: every call rejects with its error
+      waitersByKey.forEach(waiters => waiters.forEach(({ reject }) => reject(error)));
+    });
+  }
+
+  function flush() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const current = batch;
+    batch = null;
+    if (current) {
+      dispatch(current);
+    }
+  }
+
+  function load(key: K): Promise<V> {
+    return new Promise<V>((resolve, reject) => {
+      if (!batch) {
+        batch = new Map();
+        timer = setTimeout(flush, batchWindowMs);
+      }
+      const waiters = batch.get(key);
+      if (waiters) {
+        waiters.push({ resolve, reject });
+        return;
+      }
+      batch.set(key, [{ resolve, reject }]);
+      if (maxBatchSize !== -1 && batch.size >= maxBatchSize) {
+        flush();
+      }
+    });
+  }
+
+  return createAsync(load, asyncOptions);
+}
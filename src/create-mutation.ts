@@ -0,0 +1,157 @@
+import type { PickPromiseType, PromiseFunction, AsyncError } from "./common";
+import type { ReturnTypeOfCreateAsync } from "./create-async";
+import { IdCacheManager } from "./id-cache-manager";
+import { invalidateTags } from "./cache-tags";
+import { isPromiseLike } from "./maybe-async";
+import { applyOptimisticUpdate } from "./optimistic-update";
+import type { UndoOptimisticUpdate } from "./optimistic-update";
+
+/**
+ * What a mutation refreshes once it succeeds:
+ * - an enhanced function: every entry of its cache (`fnProxy.invalidate()`)
+ * - `{ id }`: every entry cached under this id (`IdCacheManager.invalidate`)
+ * - `{ tags }`: every entry carrying one of the tags (`invalidateTags`)
+ */
+export type MutationInvalidateTarget =
+  | ReturnTypeOfCreateAsync<any>
+  | { id: string }
+  | { tags: string[] };
+
+/**
+ * Optimistic cache writes available in `onMutate`. They work like
+ * `fnProxy.setCache` / `fnProxy.updateCache`, and are undone, in reverse
+ * order, when the mutation fails.
+ */
+export interface OptimisticUpdates {
+  setCache<T extends PromiseFunction>(
+    target: ReturnTypeOfCreateAsync<T>,
+    params: Parameters<T>,
+    data: PickPromiseType<T>,
+  ): void;
+  updateCache<T extends PromiseFunction>(
+    target: ReturnTypeOfCreateAsync<T>,
+    params: Parameters<T>,
+    updater: (prev: PickPromiseType<T> | undefined) => PickPromiseType<T>,
+  ): void;
+}
+
+export interface CreateMutationOptions<F extends PromiseFunction = PromiseFunction> {
+  /**
+   * Caches to refresh after a successful mutation, either a static list or
+   * computed from its result and params
+   */
+  invalidates?:
+    | MutationInvalidateTarget[]
+    | ((data: PickPromiseType<F>, params: Parameters<F>) => MutationInvalidateTarget[]);
+  /**
+   * Called before `fn`, to apply optimistic updates through `optimistic`.
+   * If it throws, `fn` is not called.
+   */
+  onMutate?: (params: Parameters<F>, optimistic: OptimisticUpdates) => void | Promise<void>;
+  /**
+   * Called when the mutation succeeds, after `invalidates` was applied
+   */
+  onSuccess?: (data: PickPromiseType<F>, params: Parameters<F>) => void;
+  /**
+   * Called when the mutation fails, after the optimistic updates were rolled back
+   */
+  onError?: (error: AsyncError, params: Parameters<F>) => void;
+  /**
+   * Called after `onSuccess` / `onError`
+   */
+  onSettled?: (
+    data: PickPromiseType<F> | undefined,
+    error: AsyncError | undefined,
+    params: Parameters<F>,
+  ) => void;
+}
+
+function invalidateTarget(target: MutationInvalidateTarget): void {
+  if (typeof target === 'function') {
+    target.invalidate();
+  } else if ('id' in target) {
+    IdCacheManager.invalidate(target.id);
+  } else {
+    invalidateTags(target.tags);
+  }
+}
+
+/**
+ * Wrap a write call (create / update / delete) so that it refreshes the
+ * caches it affects, with optional optimistic updates. Framework agnostic.
+ *
+ * @param fn A function and it's return type must be Promise
+ * @param options createMutation options
+ * @returns A function with the same signature as `fn`
+ *
+ * @example
+ * ```typescript
+ * const renameUser = createMutation(
+ *   (id: string, name: string) => api.patch(`/users/${id}`, { name }),
+ *   {
+ *     invalidates: [getUsers, { tags: ['user'] }],
+ *     onMutate: ([id, name], optimistic) => {
+ *       optimistic.updateCache(getUser, [id], user => ({ ...user!, name }));
+ *     },
+ *   }
+ * );
+ * ```
+ */
+export function createMutation<F extends PromiseFunction>(
+  fn: F,
+  {
+    invalidates = [],
+    onMutate,
+    onSuccess,
+    onError,
+    onSettled,
+  }: CreateMutationOptions<F> = {}
+): (...params: Parameters<F>) => Promise<PickPromiseType<F>> {
+  return async function mutate(...params: Parameters<F>) {
+    const rollbacks: UndoOptimisticUpdate[] = [];
+    // optimistic writes waiting for an asynchronous cache manager's read
+    const pendingWrites: Promise<void>[] = [];
+
+    function write<T extends PromiseFunction>(
+      target: ReturnTypeOfCreateAsync<T>,
+      targetParams: Parameters<T>,
+      updater: (prev: PickPromiseType<T> | undefined) => PickPromiseType<T>,
+    ) {
+      // the undo is known once the current value was read, so that it is the one restored
+      const undo = applyOptimisticUpdate(target, targetParams, updater);
+      if (isPromiseLike<UndoOptimisticUpdate>(undo)) {
+        // a failed read wrote nothing, so there is nothing to roll back
+        pendingWrites.push(Promise.resolve(undo).then(rollback => {
+          rollbacks.push(rollback);
+        }, () => undefined));
+      } else {
+        rollbacks.push(undo);
+      }
+    }
+
+    const optimistic: OptimisticUpdates = {
+      setCache: (target, targetParams, data) => write(target, targetParams, () => data),
+      updateCache: write,
+    };
+
+    let data: PickPromiseType<F>;
+    try {
+      await onMutate?.(params, optimistic);
+      data = await fn(...params);
+    } catch (error) {
+      await Promise.all(pendingWrites);
+      rollbacks.reverse().forEach(rollback => rollback());
+      onError?.(error, params);
+      onSettled?.(undefined, error, params);
+      throw error;
+    }
+
+    // invalidate after the optimistic writes, which would otherwise mark their keys fresh again
+    await Promise.all(pendingWrites);
+    (typeof invalidates === 'function' ? invalidates(data, params) : invalidates)
+      .forEach(invalidateTarget);
+    onSuccess?.(data, params);
+    onSettled?.(data, undefined, params);
+    return data;
+  };
+}
@@ -0,0 +1,104 @@
+import { IdCacheManager } from "./id-cache-manager";
+
+/** A cache entry in a {@link DehydratedState}. */
+export interface DehydratedEntry {
+  data: unknown;
+  /** when the entry was written, in ms since the epoch */
+  timestamp: number;
+}
+
+/** The entries of one cache, by cache key. */
+export type DehydratedEntries = Record<string, DehydratedEntry>;
+
+/** The entries of one `IdCacheManager` id, with the settings it was registered with. */
+export interface DehydratedIdCache {
+  ttl: number;
+  cacheCapacity: number;
+  maxCacheBytes: number;
+  entries: DehydratedEntries;
+}
+
+/**
+ * Snapshot of the caches produced by {@link dehydrate}. Plain objects only,
+ * so it can be sent to the client as JSON, as long as the cached values can.
+ */
+export interface DehydratedState {
+  /** `IdCacheManager` caches, by id */
+  ids: Record<string, DehydratedIdCache>;
+  /** opt-in custom managers, by the name they were passed with */
+  managers: Record<string, DehydratedEntries>;
+}
+
+/**
+ * A custom cache manager that can take part in {@link dehydrate} /
+ * {@link hydrate}. `IdCacheManager` instances implement it too.
+ */
+export interface DehydratableCacheManager {
+  /** Export the unexpired entries. */
+  dehydrate(): DehydratedEntries;
+  /** Seed exported entries, keeping their timestamp. */
+  hydrate(entries: DehydratedEntries): void;
+}
+
+export interface DehydrateOptions {
+  /**
+   * `IdCacheManager` ids to export. default is every id with cached entries
+   */
+  ids?: string[];
+  /**
+   * custom managers to export, by a name that is the same on the server and
+   * the client
+   */
+  managers?: Record<string, DehydratableCacheManager>;
+}
+
+export interface HydrateOptions {
+  /**
+   * custom managers to seed, by the name they were dehydrated with. Entries
+   * of managers missing here are ignored
+   */
+  managers?: Record<string, DehydratableCacheManager>;
+}
+
+/**
+ * Export the cached entries of `IdCacheManager` ids, and of opt-in custom
+ * managers, for server-side rendering. Pass the result to {@link hydrate} on
+ * the client before the first render, so that `useAsync` hooks with an `id`
+ * render the server data immediately.
+ *
+ * Ids are module-level: on a server handling several requests, pass the
+ * `ids` of the current page, or call `IdCacheManager.clearAll()` between
+ * requests, so that one request does not leak data into another one.
+ *
+ * @example
+ * ```typescript
+ * // server
+ * const html = renderToString(<App />);
+ * const state = stringifyWithTypes(dehydrate({ ids: ['user', 'posts'] }));
+ * ```
+ */
+export function dehydrate({ ids, managers = {} }: DehydrateOptions = {}): DehydratedState {
+  const state: DehydratedState = { ids: IdCacheManager.dehydrate(ids), managers: {} };
+  Object.keys(managers).forEach((name) => {
+    state.managers[name] = managers[name].dehydrate();
+  });
+  return state;
+}
+
+/**
+ * Seed the caches with a snapshot produced by {@link dehydrate}. Entries keep
+ * their server timestamp, so they are revalidated according to
+ * `staleTime` / `swr` like any other cached entry.
+ *
+ * @example
+ * ```typescript
+ * // client, before hydrateRoot
+ * hydrate(parseWithTypes(window.__GREAT_ASYNC_STATE__));
+ * ```
+ */
+export function hydrate(state: DehydratedState, { managers = {} }: HydrateOptions = {}): void {
+  IdCacheManager.hydrate(state.ids);
+  Object.keys(state.managers).forEach((name) => {
+    managers[name]?.hydrate(state.managers[name]);
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Rejection reason of a call that was cancelled — either explicitly through
+ * `fnProxy.abort(...)` / `fnProxy.abortAll()`, or because a newer
+ * `takeLatest` call for the same key superseded it.
+ *
+ * The same instance is used as the `reason` of the `AbortSignal` handed to
+ * `fn`, so `signal.reason instanceof AbortError` holds inside `fn` too.
+ */
+export class AbortError extends Error {
+  constructor(message: string = 'The operation was aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Rejection reason of a call that exceeded its `timeout`.
+ */
+export class TimeoutError extends Error {
+  /** cache key of the call (see `genKeyByParams`) */
+  key: string;
+  /** milliseconds between the start of the timed span and the timeout */
+  elapsed: number;
+  /** the configured timeout in milliseconds */
+  timeout: number;
+
+  constructor(key: string, elapsed: number, timeout: number) {
+    super(`Timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.key = key;
+    this.elapsed = elapsed;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Rejection reason of a call that would have had to wait for its rate limit
+ * longer than `rateLimitMaxWait`.
+ */
+export class RateLimitError extends Error {
+  /** milliseconds the call would have had to wait */
+  wait: number;
+  /** the configured maximum wait in milliseconds */
+  maxWait: number;
+
+  constructor(wait: number, maxWait: number) {
+    super(`Rate limited: would wait ${wait}ms, maxWait is ${maxWait}ms`);
+    this.name = 'RateLimitError';
+    this.wait = wait;
+    this.maxWait = maxWait;
+  }
+}
+
+/**
+ * Rejection reason of a call made while its circuit breaker is open, or
+ * half-open with every trial slot taken.
+ */
+export class CircuitOpenError extends Error {
+  /** milliseconds until the breaker lets a trial call through, 0 when half-open */
+  retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`Circuit is open, retry after ${retryAfter}ms`);
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Rejection reason of a `createBatchedAsync` call whose key is missing from
+ * the result of its batch.
+ */
+export class MissingBatchItemError extends Error {
+  /** the key that has no result */
+  key: unknown;
+
+  constructor(key: unknown) {
+    super(`No result for key ${String(key)} in its batch`);
+    this.name = 'MissingBatchItemError';
+    this.key = key;
+  }
+}
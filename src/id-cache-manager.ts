@@ -1,7 +1,12 @@
 import { isDev } from "./common";
 import type { CacheData } from "./common";
-import type { CacheManager } from "./cache-manager";
+import type { CacheManager, CacheHit } from "./cache-manager";
 import { LRU } from "./LRU";
+import { defaultSizeOf } from "./size-of";
+import { StaleKeys } from "./stale-keys";
+import { untagCacheEntry } from "./cache-tags";
+import { emitCacheEvent } from "./cache-events";
+import type { DehydratableCacheManager, DehydratedEntries, DehydratedIdCache } from "./dehydrate";
 
 /**
  * Cache strategy using a module-level store keyed by a stable string `id`.
@@ -13,21 +18,31 @@ import { LRU } from "./LRU";
  * capacity / data per id, no drift between callers).
  *
  * Caching is OFF by default (consistent with WeakMapCacheManager): you must
- * set `ttl` or `cacheCapacity` to actually retain entries.
+ * set `ttl`, `cacheCapacity` or `maxCacheBytes` to actually retain entries.
  */
-export class IdCacheManager<T = any> implements CacheManager<T> {
+export class IdCacheManager<T = any> implements CacheManager<T>, DehydratableCacheManager {
   private static instances = new Map<string, IdCacheManager<any>>();
 
   private ttl: number;
   private cacheCapacity: number;
+  private maxCacheBytes: number;
   private data: Map<string, CacheData> | LRU<string, CacheData>;
 
-  private constructor(ttl: number, cacheCapacity: number) {
+  private constructor(ttl: number, cacheCapacity: number, maxCacheBytes: number, sizeOf: (value: T) => number) {
     this.ttl = ttl;
     this.cacheCapacity = cacheCapacity;
-    this.data = cacheCapacity === -1
+    this.maxCacheBytes = maxCacheBytes;
+    this.data = cacheCapacity === -1 && maxCacheBytes === -1
       ? new Map<string, CacheData>()
-      : new LRU<string, CacheData>(cacheCapacity);
+      : new LRU<string, CacheData>(
+        cacheCapacity, maxCacheBytes, entry => sizeOf(entry.data), key => this.forget(key),
+      );
+  }
+
+  /** An entry was evicted or expired: drop what is kept about it next to the cache. */
+  private forget(key: string): void {
+    StaleKeys.forManager(this).forget(key);
+    untagCacheEntry(this, key);
   }
 
   /**
@@ -35,45 +50,54 @@ export class IdCacheManager<T = any> implements CacheManager<T> {
    *
    * Subsequent calls with the same `id` return the **same instance** —
    * so two unrelated callers using the same id automatically share state.
-   * If the second call passes a different `ttl` / `cacheCapacity`, the first
-   * registration wins and we emit a dev warning.
+   * If the second call passes a different `ttl` / `cacheCapacity` /
+   * `maxCacheBytes`, the first registration wins and we emit a dev warning.
+   * `sizeOf` is only read on first registration.
    */
   static forId<T = any>(
     id: string,
     ttl: number,
     cacheCapacity: number = -1,
+    maxCacheBytes: number = -1,
+    sizeOf: (value: T) => number = defaultSizeOf,
   ): IdCacheManager<T> {
     const existing = IdCacheManager.instances.get(id);
     if (existing) {
       if (isDev
-        && (existing.ttl !== ttl || existing.cacheCapacity !== cacheCapacity)) {
+        && (existing.ttl !== ttl
+          || existing.cacheCapacity !== cacheCapacity
+          || existing.maxCacheBytes !== maxCacheBytes)) {
         console.warn(
           `[great-async] Cache id "${id}" was first registered with ` +
-          `{ttl: ${existing.ttl}, cacheCapacity: ${existing.cacheCapacity}}, ` +
-          `but is now being requested with {ttl: ${ttl}, cacheCapacity: ${cacheCapacity}}. ` +
+          `{ttl: ${existing.ttl}, cacheCapacity: ${existing.cacheCapacity}, maxCacheBytes: ${existing.maxCacheBytes}}, ` +
+          `but is now being requested with {ttl: ${ttl}, cacheCapacity: ${cacheCapacity}, maxCacheBytes: ${maxCacheBytes}}. ` +
           `The first registration's settings will be used.`
         );
       }
       return existing as IdCacheManager<T>;
     }
-    const m = new IdCacheManager<T>(ttl, cacheCapacity);
+    const m = new IdCacheManager<T>(ttl, cacheCapacity, maxCacheBytes, sizeOf);
     IdCacheManager.instances.set(id, m);
     return m;
   }
 
-  private get cachingDisabled(): boolean {
-    return this.ttl === -1 && this.cacheCapacity === -1;
+  /** Whether the manager stores nothing: neither `ttl`, `cacheCapacity` nor `maxCacheBytes` is set. */
+  get cachingDisabled(): boolean {
+    return this.ttl === -1 && this.cacheCapacity === -1 && this.maxCacheBytes === -1;
   }
 
-  get(key: string): { value: T } | null {
+  /** Read an entry, with its `age` in ms. */
+  get(key: string): CacheHit<T> | null {
     if (this.cachingDisabled) return null;
     const entry = this.data.get(key);
     if (!entry) return null;
-    if (this.ttl !== -1 && Date.now() - entry.timestamp > this.ttl) {
+    const age = Date.now() - entry.timestamp;
+    if (this.ttl !== -1 && age > this.ttl) {
       this.data.delete(key);
+      this.forget(key);
       return null;
     }
-    return { value: entry.data as T };
+    return { value: entry.data as T, age };
   }
 
   set(key: string, data: T): void {
@@ -94,7 +118,71 @@ export class IdCacheManager<T = any> implements CacheManager<T> {
     if (this.ttl === -1) return;
     const now = Date.now();
     this.data.forEach((v, k) => {
-      if (now - v.timestamp > this.ttl) this.data.delete(k);
+      if (now - v.timestamp > this.ttl) {
+        this.data.delete(k);
+        this.forget(k);
+      }
+    });
+  }
+
+  /** Export the unexpired entries, see `dehydrate()`. */
+  dehydrate(): DehydratedEntries {
+    const entries: DehydratedEntries = {};
+    const now = Date.now();
+    this.data.forEach((v, k) => {
+      if (this.ttl === -1 || now - v.timestamp <= this.ttl) {
+        entries[k] = { data: v.data, timestamp: v.timestamp };
+      }
+    });
+    return entries;
+  }
+
+  /**
+   * Seed entries exported by {@link dehydrate}, keeping their timestamp so
+   * that they age as if written here. Entries already cached with a newer
+   * timestamp are kept.
+   */
+  hydrate(entries: DehydratedEntries): void {
+    if (this.cachingDisabled) return;
+    const now = Date.now();
+    Object.keys(entries).forEach((key) => {
+      const { data, timestamp } = entries[key];
+      if (this.ttl !== -1 && now - timestamp > this.ttl) return;
+      const existing = this.data.get(key);
+      if (existing && existing.timestamp >= timestamp) return;
+      this.data.set(key, { data, timestamp });
+    });
+  }
+
+  /**
+   * Export the entries of every id (or of `ids` only), with the ttl /
+   * capacity / maxCacheBytes they were registered with. Ids without entries are left out.
+   */
+  static dehydrate(ids?: string[]): Record<string, DehydratedIdCache> {
+    const caches: Record<string, DehydratedIdCache> = {};
+    IdCacheManager.instances.forEach((inst, id) => {
+      if (ids && !ids.includes(id)) return;
+      const entries = inst.dehydrate();
+      if (Object.keys(entries).length === 0) return;
+      caches[id] = {
+        ttl: inst.ttl,
+        cacheCapacity: inst.cacheCapacity,
+        maxCacheBytes: inst.maxCacheBytes,
+        entries,
+      };
+    });
+    return caches;
+  }
+
+  /**
+   * Seed the ids exported by {@link IdCacheManager.dehydrate}. Ids not
+   * registered yet are registered with the exported ttl / capacity /
+   * maxCacheBytes, and the default `sizeOf`.
+   */
+  static hydrate(caches: Record<string, DehydratedIdCache>): void {
+    Object.keys(caches).forEach((id) => {
+      const { ttl, cacheCapacity, maxCacheBytes, entries } = caches[id];
+      IdCacheManager.forId(id, ttl, cacheCapacity, maxCacheBytes).hydrate(entries);
     });
   }
 
@@ -105,7 +193,23 @@ export class IdCacheManager<T = any> implements CacheManager<T> {
    * afterwards reuses the same ttl / capacity as before.
    */
   static clear(id: string): void {
-    IdCacheManager.instances.get(id)?.data.clear();
+    const instance = IdCacheManager.instances.get(id);
+    if (!instance) return;
+    instance.data.clear();
+    StaleKeys.forManager(instance).forget();
+    untagCacheEntry(instance);
+  }
+
+  /**
+   * Mark every cached entry of a specific id stale, as `fnProxy.invalidate()`
+   * does: values are kept, but revalidated on their next call, and mounted
+   * `useAsync` hooks using the id refetch in the background.
+   */
+  static invalidate(id: string): void {
+    const instance = IdCacheManager.instances.get(id);
+    if (!instance) return;
+    StaleKeys.forManager(instance).invalidate();
+    emitCacheEvent(instance, { type: 'invalidate' });
   }
 
   /**
@@ -116,6 +220,10 @@ export class IdCacheManager<T = any> implements CacheManager<T> {
    * afterwards reuses the same ttl / capacity as before.
    */
   static clearAll(): void {
-    IdCacheManager.instances.forEach(inst => inst.data.clear());
+    IdCacheManager.instances.forEach((inst) => {
+      inst.data.clear();
+      StaleKeys.forManager(inst).forget();
+      untagCacheEntry(inst);
+    });
   }
 }
@@ -1,5 +1,7 @@
 export * from './common';
+export * from './errors';
 export * from './create-async';
+export * from './create-batched-async';
 export * from './use-async';
 export * from './asyncController';
 export * from './useAsyncFunction';
@@ -7,8 +9,35 @@ export * from './share-loading';
 export * from './cache-manager';
 export * from './weak-map-cache-manager';
 export * from './id-cache-manager';
+export * from './storage-cache-manager';
+export * from './indexeddb-cache-manager';
+export * from './serialization';
+export * from './size-of';
+export * from './dehydrate';
 // Curated re-exports from token-manager — DEFAULT_*_KEY symbols are
 // internal implementation details and intentionally not surfaced.
 export { DIMENSIONS, TokenManager } from './token-manager';
 export type { T_DIMENSIONS } from './token-manager';
-export * from './take-latest-promise';
\ No newline at end of file
+export * from './take-latest-promise';
+export * from './pool';
+export * from './rate-limiter';
+export * from './circuit-breaker';
+export * from './async-state';
+// tagCacheEntry / untagCacheEntry are called by createAsync and the built-in
+// cache managers when entries are written or dropped.
+export { invalidateTags } from './cache-tags';
+export type { InvalidateTagsOptions } from './cache-tags';
+export * from './create-mutation';
+// poll is used through fnProxy.poll.
+export type { PollOptions, PollHandle } from './poll';
+// normalizeRetryDecision is an internal helper of the retry loop.
+export { exponentialBackoff } from './retry-strategy';
+export type { RetryDecision, RetryStrategy, ExponentialBackoffOptions } from './retry-strategy';
+// composeMiddlewares and the built-in middlewares are wired up by createAsync.
+export type {
+  AsyncContext,
+  AsyncNext,
+  AsyncMiddleware,
+  BuiltinMiddleware,
+  BuiltinMiddlewareName,
+} from './middleware';
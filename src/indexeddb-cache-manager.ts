@@ -0,0 +1,351 @@
+import type { AsyncCacheManager, CacheHit } from "./cache-manager";
+import { defaultSizeOf } from "./size-of";
+
+export interface IndexedDBCacheManagerOptions<T = any> {
+  /**
+   * the IndexedDB implementation. default is the global `indexedDB` when
+   * available; without one (e.g. during SSR) the manager caches nothing
+   */
+  indexedDB?: IDBFactory | null;
+  /**
+   * name of the database, shared by every namespace. default is 'great-async'
+   */
+  dbName?: string;
+  /**
+   * name of the object store holding the entries. Managers with different
+   * namespaces share the database, each one in its own store, created on
+   * first use. default is 'default'
+   */
+  namespace?: string;
+  /**
+   * version of the shape of the cached values. Bump it when that shape
+   * changes: entries written by another version are dropped, or passed
+   * through `migrate`, when the database is opened. default is 1
+   */
+  version?: number;
+  /**
+   * turn a value written by an older `version` into the current shape.
+   * Return `undefined` to drop the entry. default drops every such entry
+   */
+  migrate?: (data: unknown, fromVersion: number) => T | undefined;
+  /**
+   * entries older than this many ms are dropped. default is -1, which means
+   * entries never expire
+   */
+  ttl?: number;
+  /**
+   * maximum number of entries, the least recently used are evicted first.
+   * default is -1, which means no limit
+   */
+  cacheCapacity?: number;
+  /**
+   * maximum total size of the cached values, as estimated by `sizeOf`. The
+   * least recently used entries are evicted until the total fits.
+   * default is -1, which means no limit
+   */
+  maxCacheBytes?: number;
+  /**
+   * estimate the size of a cached value for `maxCacheBytes`.
+   * default is `defaultSizeOf`, the length of its JSON
+   */
+  sizeOf?: (value: T) => number;
+}
+
+/** What is stored for each entry, next to the value. */
+interface StoredEntry {
+  key: string;
+  data: unknown;
+  /** `version` of the manager that wrote the entry */
+  version: number;
+  /** when the entry was written */
+  timestamp: number;
+  /** when the entry was last read or written, for LRU eviction */
+  accessedAt: number;
+  /** `sizeOf` the value, when `maxCacheBytes` is set */
+  size?: number;
+}
+
+const ACCESSED_AT_INDEX = 'accessedAt';
+
+function defaultIndexedDB(): IDBFactory | null {
+  try {
+    return typeof indexedDB !== 'undefined' ? indexedDB : null;
+  } catch {
+    return null;
+  }
+}
+
+function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Walk `source` with a cursor, until `visit` returns false. */
+function iterate(
+  source: IDBObjectStore | IDBIndex,
+  visit: (cursor: IDBCursorWithValue) => boolean | void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = source.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      try {
+        if (!cursor || visit(cursor) === false) {
+          resolve();
+          return;
+        }
+        cursor.continue();
+      } catch (error) {
+        reject(error);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Asynchronous cache strategy persisting entries to IndexedDB, one object
+ * store per namespace. Values are stored with the structured clone algorithm,
+ * so `Date`, `Map`, `Set`, `Blob`... are kept as is, but functions cannot be
+ * cached.
+ *
+ * Like {@link StorageCacheManager}, it caches even without `ttl` or
+ * `cacheCapacity`. The database is opened on first use, and upgraded to a new
+ * database version when the namespace has no object store yet.
+ *
+ * @example
+ * ```typescript
+ * const getUser = createAsync(fetchUser, {
+ *   cacheManager: new IndexedDBCacheManager({ namespace: 'users', version: 2, ttl: 24 * 60 * 60 * 1000 }),
+ * });
+ * ```
+ */
+export class IndexedDBCacheManager<T = any> implements AsyncCacheManager<T> {
+  private factory: IDBFactory | null;
+  private dbName: string;
+  private namespace: string;
+  private version: number;
+  private migrate?: (data: unknown, fromVersion: number) => T | undefined;
+  private ttl: number;
+  private cacheCapacity: number;
+  private maxCacheBytes: number;
+  private sizeOf: (value: T) => number;
+  private db: Promise<IDBDatabase> | null = null;
+  /** last `accessedAt` handed out, so that accesses within one ms keep their order */
+  private lastAccess = 0;
+
+  constructor({
+    indexedDB = defaultIndexedDB(),
+    dbName = 'great-async',
+    namespace = 'default',
+    version = 1,
+    migrate,
+    ttl = -1,
+    cacheCapacity = -1,
+    maxCacheBytes = -1,
+    sizeOf = defaultSizeOf,
+  }: IndexedDBCacheManagerOptions<T> = {}) {
+    this.factory = indexedDB;
+    this.dbName = dbName;
+    this.namespace = namespace;
+    this.version = version;
+    this.migrate = migrate;
+    this.ttl = ttl;
+    this.cacheCapacity = cacheCapacity;
+    this.maxCacheBytes = maxCacheBytes;
+    this.sizeOf = sizeOf;
+  }
+
+  private nextAccess(): number {
+    this.lastAccess = Math.max(Date.now(), this.lastAccess + 1);
+    return this.lastAccess;
+  }
+
+  private isExpired(entry: StoredEntry, now = Date.now()): boolean {
+    return this.ttl !== -1 && now - entry.timestamp > this.ttl;
+  }
+
+  private entrySize(entry: StoredEntry): number {
+    return entry.size ?? this.sizeOf(entry.data as T);
+  }
+
+  /**
+   * Evict the least recently used entries, other than `key`, until another
+   * entry fits under `cacheCapacity` and `size` more bytes under `maxCacheBytes`.
+   */
+  private async makeRoom(store: IDBObjectStore, key: string, size: number | undefined): Promise<void> {
+    let excessCount = 0;
+    if (this.cacheCapacity !== -1 && await promisifyRequest(store.getKey(key)) === undefined) {
+      excessCount = await promisifyRequest(store.count()) - this.cacheCapacity + 1;
+    }
+    let excessBytes = 0;
+    if (size !== undefined) {
+      excessBytes = size - this.maxCacheBytes;
+      await iterate(store, (cursor) => {
+        if (cursor.primaryKey !== key) excessBytes += this.entrySize(cursor.value);
+      });
+    }
+    if (excessCount <= 0 && excessBytes <= 0) return;
+    await iterate(store.index(ACCESSED_AT_INDEX), (cursor) => {
+      const entry = cursor.value as StoredEntry;
+      if (entry.key === key) return;
+      cursor.delete();
+      excessCount--;
+      excessBytes -= this.entrySize(entry);
+      return excessCount > 0 || excessBytes > 0;
+    });
+  }
+
+  private requestDatabase(version?: number): Promise<IDBDatabase> {
+    const request = this.factory!.open(this.dbName, version);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(this.namespace)) {
+        db.createObjectStore(this.namespace, { keyPath: 'key' })
+          .createIndex(ACCESSED_AT_INDEX, 'accessedAt');
+      }
+    };
+    return promisifyRequest(request);
+  }
+
+  /**
+   * Open the database, upgrading it when this namespace has no object store
+   * yet, then bring the entries to the current `version`.
+   */
+  private async connect(): Promise<IDBDatabase> {
+    let db = await this.requestDatabase();
+    while (!db.objectStoreNames.contains(this.namespace)) {
+      const nextVersion = db.version + 1;
+      db.close();
+      try {
+        db = await this.requestDatabase(nextVersion);
+      } catch (error) {
+        // another connection upgraded the database first, look again
+        if ((error as DOMException | null)?.name !== 'VersionError') throw error;
+        db = await this.requestDatabase();
+      }
+    }
+    // let other managers add their object store, reconnecting on next use
+    db.onversionchange = () => {
+      db.close();
+      this.db = null;
+    };
+    await this.upgradeEntries(db);
+    return db;
+  }
+
+  /** Migrate, or drop, the entries written by another `version`. */
+  private upgradeEntries(db: IDBDatabase): Promise<unknown> {
+    const transaction = db.transaction(this.namespace, 'readwrite');
+    return Promise.all([
+      iterate(transaction.objectStore(this.namespace), (cursor) => {
+        const entry = cursor.value as StoredEntry;
+        if (entry.version === this.version) return;
+        const data = this.migrate && entry.version < this.version
+          ? this.migrate(entry.data, entry.version)
+          : undefined;
+        if (data === undefined) {
+          cursor.delete();
+        } else {
+          cursor.update({ ...entry, data, version: this.version });
+        }
+      }),
+      transactionDone(transaction),
+    ]);
+  }
+
+  /**
+   * Run `body` in a transaction on this namespace's object store, resolving
+   * once the transaction completed. Resolves `undefined` without IndexedDB.
+   */
+  private async withStore<R>(
+    mode: IDBTransactionMode,
+    body: (store: IDBObjectStore) => Promise<R>,
+  ): Promise<R | undefined> {
+    if (!this.factory) return undefined;
+    if (!this.db) {
+      this.db = this.connect().catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+    const db = await this.db;
+    const transaction = db.transaction(this.namespace, mode);
+    const [result] = await Promise.all([
+      body(transaction.objectStore(this.namespace)),
+      transactionDone(transaction),
+    ]);
+    return result;
+  }
+
+  /** Read an entry, with its `age` in ms. */
+  async get(key: string): Promise<CacheHit<T> | null> {
+    const hit = await this.withStore('readwrite', async (store) => {
+      const entry = await promisifyRequest(store.get(key)) as StoredEntry | undefined;
+      if (!entry) return null;
+      const now = Date.now();
+      if (this.isExpired(entry, now)) {
+        store.delete(key);
+        return null;
+      }
+      if (this.cacheCapacity !== -1 || this.maxCacheBytes !== -1) {
+        store.put({ ...entry, accessedAt: this.nextAccess() });
+      }
+      return { value: entry.data as T, age: now - entry.timestamp };
+    });
+    return hit ?? null;
+  }
+
+  async set(key: string, data: T): Promise<void> {
+    const size = this.maxCacheBytes === -1 ? undefined : this.sizeOf(data);
+    await this.withStore('readwrite', async (store) => {
+      if (size !== undefined && size > this.maxCacheBytes) {
+        // could never fit
+        store.delete(key);
+        return;
+      }
+      await this.makeRoom(store, key, size);
+      const entry: StoredEntry = {
+        key,
+        data,
+        version: this.version,
+        timestamp: Date.now(),
+        accessedAt: this.nextAccess(),
+        size,
+      };
+      store.put(entry);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withStore('readwrite', async (store) => {
+      store.delete(key);
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.withStore('readwrite', async (store) => {
+      store.clear();
+    });
+  }
+
+  async clearExpired(): Promise<void> {
+    if (this.ttl === -1) return;
+    await this.withStore('readwrite', (store) => {
+      const now = Date.now();
+      return iterate(store, (cursor) => {
+        if (this.isExpired(cursor.value as StoredEntry, now)) cursor.delete();
+      });
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { isDev } from "./common";
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/**
+ * Apply `fn` to `value`, synchronously unless `value` is a promise — so that
+ * synchronous cache managers keep their synchronous behavior.
+ */
+export function mapMaybePromise<T, R>(value: MaybePromise<T>, fn: (value: T) => R): MaybePromise<R> {
+  if (isPromiseLike<T>(value)) {
+    return Promise.resolve(value).then(fn) as MaybePromise<R>;
+  }
+  return fn(value);
+}
+
+/**
+ * Fire-and-forget a cache write / delete: the result of an asynchronous
+ * cache manager is not awaited, and its failures are only reported.
+ */
+export function ignoreCacheResult(result: unknown): void {
+  if (isPromiseLike(result)) {
+    Promise.resolve(result).catch((error) => {
+      if (isDev) {
+        console.warn('[great-async] An asynchronous cache manager operation failed.', error);
+      }
+    });
+  }
+}
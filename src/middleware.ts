@@ -0,0 +1,91 @@
+import type { PickPromiseType, PromiseFunction } from "./common";
+import type { CreateAsyncOptions } from "./create-async";
+
+/**
+ * Context of one call of an enhanced function, handed to every middleware.
+ *
+ * Middlewares do not mutate it: they pass changes for the rest of the
+ * pipeline to `next(patch)`, which continues with `{ ...ctx, ...patch }`.
+ */
+export interface AsyncContext<F extends PromiseFunction = PromiseFunction> {
+  /** params the call was made with — `fn` is invoked with these */
+  params: Parameters<F>;
+  /** cache key of the params (see `genKeyByParams`) */
+  key: string;
+  /** options the enhanced function was created with */
+  options: CreateAsyncOptions<F>;
+  /** aborted when the call is aborted, superseded or timed out */
+  signal: AbortSignal;
+  /** attempt number, 1-based, counted by the retry middleware */
+  attempt: number;
+  /** whether the call refreshes the cache instead of reading it: an SWR background update or a prefetch */
+  revalidating: boolean;
+  /**
+   * Keep the call abortable (through `fnProxy.abort`) until `promise`
+   * settles, even if the call itself already resolved — e.g. for work
+   * continuing in the background.
+   */
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+export type AsyncNext<F extends PromiseFunction = PromiseFunction> =
+  (patch?: Partial<AsyncContext<F>>) => Promise<PickPromiseType<F>>;
+
+/**
+ * A step of the createAsync pipeline. Call `next` to continue with the rest
+ * of the pipeline (possibly more than once, e.g. to retry), or settle
+ * without calling it to short-circuit.
+ */
+export type AsyncMiddleware<F extends PromiseFunction = PromiseFunction> =
+  (ctx: AsyncContext<F>, next: AsyncNext<F>) => Promise<PickPromiseType<F>>;
+
+export type BuiltinMiddlewareName =
+  | 'cache'
+  | 'single'
+  | 'throttle'
+  | 'debounce'
+  | 'beforeRun'
+  | 'circuitBreaker'
+  | 'cacheWrite'
+  | 'state'
+  | 'pool'
+  | 'lifecycle'
+  | 'timeout'
+  | 'takeLatest'
+  | 'retry'
+  | 'rateLimit'
+  | 'attemptTimeout';
+
+/**
+ * A built-in feature of createAsync, tagged with its name so that it can be
+ * found when reordering or replacing it through the `use` option.
+ */
+export type BuiltinMiddleware<F extends PromiseFunction = PromiseFunction> =
+  AsyncMiddleware<F> & { readonly middlewareName: BuiltinMiddlewareName };
+
+/**
+ * Chain `middlewares` in order, ending with `terminal`.
+ *
+ * Dispatch is synchronous up to the first middleware that defers, so
+ * features relying on bookkeeping at call time (single dedupe, debounce
+ * windows) see calls in the order they were made.
+ */
+export function composeMiddlewares<F extends PromiseFunction>(
+  middlewares: AsyncMiddleware<F>[],
+  terminal: (ctx: AsyncContext<F>) => Promise<PickPromiseType<F>>,
+): (ctx: AsyncContext<F>) => Promise<PickPromiseType<F>> {
+  function dispatch(index: number, ctx: AsyncContext<F>): Promise<PickPromiseType<F>> {
+    const middleware = middlewares[index];
+    try {
+      if (!middleware) {
+        return Promise.resolve(terminal(ctx));
+      }
+      return Promise.resolve(middleware(ctx, (patch) => {
+        return dispatch(index + 1, patch ? { ...ctx, ...patch } : ctx);
+      }));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+  return ctx => dispatch(0, ctx);
+}
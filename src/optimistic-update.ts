@@ -0,0 +1,33 @@
+import type { AnyFn } from "./common";
+import type { MaybePromise } from "./maybe-async";
+
+/** Undo an optimistic write made through {@link applyOptimisticUpdate}. */
+export type UndoOptimisticUpdate = () => void;
+
+type OptimisticWriter = (
+  params: any,
+  updater: (prev: any) => any,
+) => MaybePromise<UndoOptimisticUpdate>;
+
+const writerOfFn = new WeakMap<AnyFn, OptimisticWriter>();
+
+/**
+ * Remember how an enhanced function applies an optimistic write, so that
+ * `createMutation`, which holds only the function, can undo it exactly.
+ */
+export function bindOptimisticWriter(fn: AnyFn, writer: OptimisticWriter): void {
+  writerOfFn.set(fn, writer);
+}
+
+/**
+ * Write the result of `updater` to the cache of `fn`, like `fn.updateCache`,
+ * resolving with a function undoing the write once the current value was
+ * read.
+ */
+export function applyOptimisticUpdate(
+  fn: AnyFn,
+  params: any,
+  updater: (prev: any) => any,
+): MaybePromise<UndoOptimisticUpdate> {
+  return writerOfFn.get(fn)!(params, updater);
+}
@@ -0,0 +1,163 @@
+import type { AsyncError } from "./common";
+
+export interface PollOptions<T> {
+  /**
+   * milliseconds between the end of a call and the start of the next one
+   */
+  interval: number;
+  /**
+   * stop polling once a result satisfies it, e.g. a finished job
+   */
+  until?: (result: T) => boolean;
+  /**
+   * stop polling after this many calls. default is -1, which means no limit
+   */
+  maxAttempts?: number;
+  /**
+   * make the first call right away rather than after `interval`. default is true
+   */
+  immediate?: boolean;
+  /**
+   * stop polling when a call fails. default is true
+   */
+  stopOnError?: boolean;
+  /**
+   * Called with the result of every call
+   * @param attempt 1 for the first call
+   */
+  onResult?: (result: T, attempt: number) => void;
+  /**
+   * Called when a call fails
+   * @param attempt 1 for the first call
+   */
+  onError?: (error: AsyncError, attempt: number) => void;
+}
+
+/**
+ * A running poll. Iterate it (`for await`) to receive the results; the
+ * iteration ends when polling stops, and throws the error that stopped it.
+ * Breaking out of the loop stops polling.
+ */
+export interface PollHandle<T> extends AsyncIterable<T> {
+  /** Stop polling. A call in flight settles, but is not reported. */
+  stop: () => void;
+  readonly stopped: boolean;
+}
+
+type PollEvent<T> =
+  | { type: 'result'; result: T }
+  | { type: 'error'; error: AsyncError }
+  | { type: 'end' };
+
+/**
+ * Call `call` repeatedly, `interval` ms apart, until `until` is satisfied,
+ * `maxAttempts` is reached or the handle is stopped.
+ */
+export function poll<T>(
+  call: () => Promise<T>,
+  {
+    interval,
+    until,
+    maxAttempts = -1,
+    immediate = true,
+    stopOnError = true,
+    onResult,
+    onError,
+  }: PollOptions<T>,
+): PollHandle<T> {
+  let stopped = false;
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // events for the iterator, only recorded once it was requested
+  let events: PollEvent<T>[] | null = null;
+  let wake: (() => void) | null = null;
+
+  function emit(event: PollEvent<T>) {
+    if (!events) return;
+    events.push(event);
+    wake?.();
+    wake = null;
+  }
+
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    emit({ type: 'end' });
+  }
+
+  function schedule() {
+    if (maxAttempts !== -1 && attempt >= maxAttempts) {
+      stop();
+      return;
+    }
+    timer = setTimeout(tick, interval);
+  }
+
+  function tick() {
+    timer = null;
+    attempt++;
+    const currentAttempt = attempt;
+    call().then((result) => {
+      if (stopped) return;
+      onResult?.(result, currentAttempt);
+      emit({ type: 'result', result });
+      if (until?.(result)) {
+        stop();
+        return;
+      }
+      schedule();
+    }, (error) => {
+      if (stopped) return;
+      onError?.(error, currentAttempt);
+      if (stopOnError) {
+        emit({ type: 'error', error });
+        stop();
+        return;
+      }
+      schedule();
+    });
+  }
+
+  if (immediate) {
+    tick();
+  } else {
+    schedule();
+  }
+
+  return {
+    stop,
+    get stopped() {
+      return stopped;
+    },
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+      if (!events) {
+        events = stopped ? [{ type: 'end' }] : [];
+      }
+      const queue = events;
+      return {
+        next: async (): Promise<IteratorResult<T>> => {
+          while (!queue.length) {
+            await new Promise<void>((resolve) => { wake = resolve; });
+          }
+          const event = queue[0];
+          if (event.type === 'end') {
+            return { done: true, value: undefined };
+          }
+          queue.shift();
+          if (event.type === 'error') {
+            throw event.error;
+          }
+          return { done: false, value: event.result };
+        },
+        return: async (): Promise<IteratorResult<T>> => {
+          stop();
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+}
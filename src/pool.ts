@@ -0,0 +1,104 @@
+export interface PoolOptions {
+  /**
+   * maximum number of tasks running at the same time
+   */
+  concurrency: number;
+}
+
+export interface PoolRunOptions {
+  /**
+   * queued tasks with a higher priority start first; tasks with the same
+   * priority start in FIFO order. default is 0
+   */
+  priority?: number;
+  /**
+   * aborting removes a still-queued task from the queue and rejects it with
+   * the signal's reason. A task that already started is not affected.
+   */
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * Limits how many tasks run at once. Excess tasks wait in a queue and start
+ * as running ones settle.
+ *
+ * One pool can be shared by several `createAsync` instances via the `pool`
+ * option, so that they draw from the same budget.
+ */
+export class Pool {
+  readonly concurrency: number;
+  private runningCount = 0;
+  private queue: QueuedTask[] = [];
+
+  constructor({ concurrency }: PoolOptions) {
+    if (!(concurrency >= 1)) {
+      throw new Error('great-async: pool concurrency must be at least 1');
+    }
+    this.concurrency = concurrency;
+  }
+
+  /** number of tasks currently running */
+  get running(): number {
+    return this.runningCount;
+  }
+
+  /** number of tasks waiting for a free slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  run<T>(task: () => Promise<T>, { priority = 0, signal }: PoolRunOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const queued: QueuedTask = {
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.runningCount++;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.runningCount--;
+              this.next();
+            });
+        },
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter(i => i !== queued);
+        reject(signal!.reason);
+      };
+
+      if (this.runningCount < this.concurrency) {
+        queued.start();
+        return;
+      }
+      // keep the queue sorted by priority, FIFO within the same priority
+      const index = this.queue.findIndex(i => i.priority < priority);
+      if (index === -1) {
+        this.queue.push(queued);
+      } else {
+        this.queue.splice(index, 0, queued);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private next() {
+    if (this.runningCount < this.concurrency) {
+      this.queue.shift()?.start();
+    }
+  }
+}
+
+export function createPool(options: PoolOptions): Pool {
+  return new Pool(options);
+}
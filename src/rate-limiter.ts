@@ -0,0 +1,126 @@
+import { delayWithSignal, isDev } from "./common";
+import { RateLimitError } from "./errors";
+
+export interface RateLimitOptions {
+  /**
+   * number of calls allowed per `interval`, also the size of a burst
+   */
+  limit: number;
+  /**
+   * length of the window in milliseconds
+   */
+  interval: number;
+}
+
+export interface AcquireOptions {
+  /**
+   * reject with a `RateLimitError` instead of waiting longer than this many
+   * milliseconds. default is -1, which means wait as long as needed
+   */
+  maxWait?: number;
+  /**
+   * aborting stops waiting, gives the reserved token back and rejects with
+   * the signal's reason
+   */
+  signal?: AbortSignal;
+  /**
+   * called once, before waiting, when the call has to wait for a token
+   */
+  onRateLimited?: (wait: number) => void;
+}
+
+/**
+ * Token bucket: holds up to `limit` tokens and refills continuously at
+ * `limit` tokens per `interval`. Every call takes one token; calls over
+ * budget wait, in FIFO order, until their token has been refilled.
+ *
+ * Use {@link RateLimiter.forResource} (or `createRateLimiter`) to share one
+ * budget between every enhanced function hitting the same resource.
+ */
+export class RateLimiter {
+  private static instances = new Map<string, RateLimiter>();
+
+  readonly limit: number;
+  readonly interval: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor({ limit, interval }: RateLimitOptions) {
+    if (!(limit >= 1) || !(interval > 0)) {
+      throw new Error('great-async: rate limit needs limit >= 1 and interval > 0');
+    }
+    this.limit = limit;
+    this.interval = interval;
+    this.tokens = limit;
+  }
+
+  /**
+   * Get the limiter for `resource`, creating it on first call.
+   *
+   * Subsequent calls with the same `resource` return the **same instance**.
+   * If a later call passes different options, the first registration wins
+   * and we emit a dev warning.
+   */
+  static forResource(resource: string, options: RateLimitOptions): RateLimiter {
+    const existing = RateLimiter.instances.get(resource);
+    if (existing) {
+      if (isDev
+        && (existing.limit !== options.limit || existing.interval !== options.interval)) {
+        console.warn(
+          `[great-async] Rate limit resource "${resource}" was first registered with ` +
+          `{limit: ${existing.limit}, interval: ${existing.interval}}, ` +
+          `but is now being requested with {limit: ${options.limit}, interval: ${options.interval}}. ` +
+          `The first registration's settings will be used.`
+        );
+      }
+      return existing;
+    }
+    const limiter = new RateLimiter(options);
+    RateLimiter.instances.set(resource, limiter);
+    return limiter;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + (now - this.updatedAt) * this.limit / this.interval,
+    );
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token, waiting for it if the budget is used up.
+   * @returns milliseconds waited
+   */
+  acquire({ maxWait = -1, signal, onRateLimited }: AcquireOptions = {}): Promise<number> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    this.refill();
+    // tokens may go negative: the deficit is the queue of reserved tokens
+    this.tokens -= 1;
+    if (this.tokens >= 0) {
+      return Promise.resolve(0);
+    }
+    const wait = Math.ceil(-this.tokens * this.interval / this.limit);
+    if (maxWait !== -1 && wait > maxWait) {
+      this.tokens += 1;
+      return Promise.reject(new RateLimitError(wait, maxWait));
+    }
+    onRateLimited?.(wait);
+    return delayWithSignal(wait, signal).then(() => wait, (reason) => {
+      this.tokens += 1;
+      throw reason;
+    });
+  }
+}
+
+/**
+ * Get the shared rate limiter for `resource`. Every enhanced function created
+ * with the returned limiter (`createAsync(fn, { rateLimit: limiter })`) draws
+ * from the same budget.
+ */
+export function createRateLimiter(resource: string, options: RateLimitOptions): RateLimiter {
+  return RateLimiter.forResource(resource, options);
+}
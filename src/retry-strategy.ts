@@ -0,0 +1,81 @@
+import type { AsyncError } from "./common";
+
+/**
+ * What a `retryStrategy` may return for a failed attempt:
+ * - `boolean` — retry immediately (`true`) or give up (`false`)
+ * - `number` — retry after that many milliseconds
+ * - `{ retry, delay }` — explicit form of both of the above
+ */
+export type RetryDecision = boolean | number | { retry: boolean; delay?: number };
+
+export type RetryStrategy = (error: AsyncError, currentRetryCount: number) => RetryDecision;
+
+export function normalizeRetryDecision(decision: RetryDecision): { retry: boolean; delay: number } {
+  if (typeof decision === 'number') {
+    return { retry: decision >= 0, delay: Math.max(decision, 0) };
+  }
+  if (typeof decision === 'object' && decision !== null) {
+    return { retry: !!decision.retry, delay: Math.max(decision.delay ?? 0, 0) };
+  }
+  return { retry: !!decision, delay: 0 };
+}
+
+export interface ExponentialBackoffOptions {
+  /**
+   * delay before the first retry, doubled for every further retry
+   * @default 200
+   */
+  base?: number;
+  /**
+   * upper bound of a single delay
+   * @default 30000
+   */
+  max?: number;
+  /**
+   * randomize delays so that many clients do not retry in lockstep.
+   * `true` is full jitter (anywhere between 0 and the computed delay);
+   * a number between 0 and 1 randomizes only that fraction of the delay.
+   * @default false
+   */
+  jitter?: boolean | number;
+  /**
+   * maximum number of retries
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * only errors for which this returns true are retried
+   */
+  retryIf?: (error: AsyncError) => boolean;
+}
+
+/**
+ * Retry strategy preset: wait `base * 2^(n-1)` ms (capped at `max`) before
+ * the n-th retry.
+ *
+ * @example
+ * ```typescript
+ * const getUser = createAsync(fetchUser, {
+ *   retryStrategy: exponentialBackoff({ base: 500, max: 8000, jitter: true }),
+ * });
+ * ```
+ */
+export function exponentialBackoff({
+  base = 200,
+  max = 30000,
+  jitter = false,
+  retries = 3,
+  retryIf,
+}: ExponentialBackoffOptions = {}): RetryStrategy {
+  const jitterRatio = jitter === true ? 1 : Math.min(Math.max(Number(jitter) || 0, 0), 1);
+  return (error, currentRetryCount) => {
+    if (currentRetryCount > retries || (retryIf && !retryIf(error))) {
+      return false;
+    }
+    const delay = Math.min(base * 2 ** (currentRetryCount - 1), max);
+    return {
+      retry: true,
+      delay: delay - delay * jitterRatio * Math.random(),
+    };
+  };
+}
@@ -0,0 +1,42 @@
+const TYPE_KEY = '__great_async_type__';
+
+/**
+ * `JSON.stringify` that also keeps `Date`, `Map` and `Set` values, to be
+ * read back with {@link parseWithTypes}.
+ */
+export function stringifyWithTypes(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, val: unknown) {
+    // `val` is the result of toJSON, which turned dates into strings already
+    const original = this[key];
+    if (original instanceof Date) {
+      return { [TYPE_KEY]: 'Date', value: original.toISOString() };
+    }
+    if (original instanceof Map) {
+      return { [TYPE_KEY]: 'Map', value: [...original.entries()] };
+    }
+    if (original instanceof Set) {
+      return { [TYPE_KEY]: 'Set', value: [...original.values()] };
+    }
+    return val;
+  });
+}
+
+/**
+ * `JSON.parse` reviving the `Date`, `Map` and `Set` values written by
+ * {@link stringifyWithTypes}.
+ */
+export function parseWithTypes<T = unknown>(text: string): T {
+  return JSON.parse(text, (key, val) => {
+    if (val && typeof val === 'object' && TYPE_KEY in val) {
+      switch (val[TYPE_KEY]) {
+        case 'Date':
+          return new Date(val.value);
+        case 'Map':
+          return new Map(val.value);
+        case 'Set':
+          return new Set(val.value);
+      }
+    }
+    return val;
+  });
+}
@@ -0,0 +1,11 @@
+/**
+ * Rough size of a cached value, used by the `maxCacheBytes` option: the length
+ * of its JSON. Values that cannot be turned into JSON count as 0.
+ */
+export function defaultSizeOf(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
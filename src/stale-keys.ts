@@ -0,0 +1,80 @@
+import type { AnyCacheManager, CacheHit } from "./cache-manager";
+
+/**
+ * Keys of a cache marked stale by `invalidate`: their value is still served,
+ * but revalidated in the background on the next call.
+ *
+ * Kept next to the cache manager rather than in it, so that every manager
+ * (custom ones included) supports invalidation, and shared by every function
+ * using the same manager.
+ */
+export class StaleKeys {
+  private static readonly registry = new WeakMap<AnyCacheManager<any>, StaleKeys>();
+
+  static forManager(manager: AnyCacheManager<any>): StaleKeys {
+    let staleKeys = StaleKeys.registry.get(manager);
+    if (!staleKeys) {
+      staleKeys = new StaleKeys();
+      StaleKeys.registry.set(manager, staleKeys);
+    }
+    return staleKeys;
+  }
+
+  /** every key written before the last `invalidate()` is stale */
+  private all = false;
+  private stale = new Set<string>();
+  /** keys written since the last `invalidate()`, only tracked while `all` */
+  private fresh = new Set<string>();
+
+  /** Mark `key` stale, or every key when omitted. */
+  invalidate(key?: string): void {
+    if (key === undefined) {
+      this.all = true;
+      this.stale.clear();
+      this.fresh.clear();
+      return;
+    }
+    this.stale.add(key);
+    this.fresh.delete(key);
+  }
+
+  isStale(key: string): boolean {
+    return this.stale.has(key) || (this.all && !this.fresh.has(key));
+  }
+
+  /**
+   * Drop the marks of `key`, or of every key when omitted, once its entry is
+   * gone (cleared, or found evicted or expired), so that keys churning
+   * through a long-lived manager are not remembered forever.
+   */
+  forget(key?: string): void {
+    if (key === undefined) {
+      this.all = false;
+      this.stale.clear();
+      this.fresh.clear();
+      return;
+    }
+    this.stale.delete(key);
+    this.fresh.delete(key);
+  }
+
+  /** `key` has just been written with a fresh value */
+  markFresh(key: string): void {
+    this.stale.delete(key);
+    if (this.all) {
+      this.fresh.add(key);
+    }
+  }
+}
+
+/**
+ * Whether a cache hit is old enough to be revalidated: older than
+ * `staleTime`, or of unknown age. With a `staleTime` of -1 every hit is
+ * when `swr` is on, and none otherwise.
+ */
+export function isPastStaleTime(hit: CacheHit<any>, staleTime: number, swr: boolean): boolean {
+  if (staleTime === -1) {
+    return swr;
+  }
+  return hit.age === undefined || hit.age >= staleTime;
+}
@@ -0,0 +1,298 @@
+import { isDev } from "./common";
+import type { CacheManager, CacheHit } from "./cache-manager";
+import { parseWithTypes, stringifyWithTypes } from "./serialization";
+import { defaultSizeOf } from "./size-of";
+
+/**
+ * The part of the Web Storage API used by {@link StorageCacheManager}:
+ * `localStorage`, `sessionStorage` or any compatible object.
+ */
+export interface StorageLike {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface StorageCacheManagerOptions<T = any> {
+  /**
+   * where entries are stored. default is `localStorage` when available;
+   * without a storage (e.g. during SSR) the manager caches nothing
+   */
+  storage?: StorageLike | null;
+  /**
+   * prefix of the storage keys of the entries, so that several managers
+   * (and other code) can share one storage. default is 'great-async:'
+   */
+  prefix?: string;
+  /**
+   * entries older than this many ms are dropped. default is -1, which means
+   * entries never expire
+   */
+  ttl?: number;
+  /**
+   * maximum number of entries, the least recently used are evicted first.
+   * default is -1, which means no limit
+   */
+  cacheCapacity?: number;
+  /**
+   * maximum total size of the cached values, as estimated by `sizeOf`. The
+   * least recently used entries are evicted until the total fits.
+   * default is -1, which means no limit
+   */
+  maxCacheBytes?: number;
+  /**
+   * estimate the size of a cached value for `maxCacheBytes`.
+   * default is `defaultSizeOf`, the length of its JSON
+   */
+  sizeOf?: (value: T) => number;
+  /**
+   * turn an entry into a string. default is `stringifyWithTypes`: JSON,
+   * keeping `Date`, `Map` and `Set` values
+   */
+  serialize?: (entry: unknown) => string;
+  /**
+   * read back an entry written by `serialize`. default is `parseWithTypes`
+   */
+  deserialize?: (text: string) => unknown;
+}
+
+/** What is stored for each entry, next to the value. */
+interface StoredEntry {
+  data: unknown;
+  /** when the entry was written */
+  timestamp: number;
+  /** when the entry was last read or written, for LRU eviction */
+  accessedAt: number;
+  /** `sizeOf` the value, when `maxCacheBytes` is set */
+  size?: number;
+}
+
+function defaultStorage(): StorageLike | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // accessing localStorage throws when it is disabled
+    return null;
+  }
+}
+
+/** Whether `setItem` failed because the storage is full, across browsers. */
+function isQuotaExceeded(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return name === 'QuotaExceededError'
+    || name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || code === 22
+    || code === 1014;
+}
+
+/**
+ * Cache strategy persisting entries to `localStorage`, `sessionStorage` or
+ * any `Storage`-like object, so that cached values survive page reloads.
+ *
+ * Unlike the built-in in-memory managers, it caches even without `ttl` or
+ * `cacheCapacity`. When the storage is full, the least recently used entries
+ * of this prefix are evicted until the new entry fits.
+ *
+ * @example
+ * ```typescript
+ * const getUser = createAsync(fetchUser, {
+ *   cacheManager: new StorageCacheManager({ prefix: 'users:', ttl: 60 * 60 * 1000, cacheCapacity: 100 }),
+ * });
+ * ```
+ */
+export class StorageCacheManager<T = any> implements CacheManager<T> {
+  private storage: StorageLike | null;
+  private prefix: string;
+  private ttl: number;
+  private cacheCapacity: number;
+  private maxCacheBytes: number;
+  private sizeOf: (value: T) => number;
+  private serialize: (entry: unknown) => string;
+  private deserialize: (text: string) => unknown;
+  /** last `accessedAt` handed out, so that accesses within one ms keep their order */
+  private lastAccess = 0;
+
+  constructor({
+    storage = defaultStorage(),
+    prefix = 'great-async:',
+    ttl = -1,
+    cacheCapacity = -1,
+    maxCacheBytes = -1,
+    sizeOf = defaultSizeOf,
+    serialize = stringifyWithTypes,
+    deserialize = parseWithTypes,
+  }: StorageCacheManagerOptions<T> = {}) {
+    this.storage = storage;
+    this.prefix = prefix;
+    this.ttl = ttl;
+    this.cacheCapacity = cacheCapacity;
+    this.maxCacheBytes = maxCacheBytes;
+    this.sizeOf = sizeOf;
+    this.serialize = serialize;
+    this.deserialize = deserialize;
+  }
+
+  private nextAccess(): number {
+    this.lastAccess = Math.max(Date.now(), this.lastAccess + 1);
+    return this.lastAccess;
+  }
+
+  private isExpired(entry: StoredEntry, now = Date.now()): boolean {
+    return this.ttl !== -1 && now - entry.timestamp > this.ttl;
+  }
+
+  /** Storage keys of this manager's entries. */
+  private storageKeys(): string[] {
+    if (!this.storage) return [];
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null && key.startsWith(this.prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /** Read a stored entry, dropping it when it cannot be deserialized. */
+  private read(storageKey: string): StoredEntry | null {
+    const text = this.storage?.getItem(storageKey);
+    if (text == null) return null;
+    try {
+      return this.deserialize(text) as StoredEntry;
+    } catch {
+      this.storage!.removeItem(storageKey);
+      return null;
+    }
+  }
+
+  /**
+   * Write an entry, evicting the least recently used entries while the
+   * storage is full. Gives up (and drops the entry) once nothing is left,
+   * or right away when the storage fails for another reason.
+   */
+  private write(storageKey: string, entry: StoredEntry): void {
+    const text = this.serialize(entry);
+    for (;;) {
+      try {
+        this.storage!.setItem(storageKey, text);
+        return;
+      } catch (error) {
+        if (!isQuotaExceeded(error)) {
+          // e.g. a SecurityError: evicting other entries would not help
+          if (isDev) {
+            console.warn(`[great-async] StorageCacheManager could not store "${storageKey}".`, error);
+          }
+          return;
+        }
+        if (!this.evictLeastRecentlyUsed(storageKey)) {
+          if (isDev) {
+            console.warn(
+              `[great-async] StorageCacheManager could not store "${storageKey}", ` +
+              'even after evicting every other entry.',
+              error
+            );
+          }
+          this.storage!.removeItem(storageKey);
+          return;
+        }
+      }
+    }
+  }
+
+  /** @returns the evicted entry, or null when there was none */
+  private evictLeastRecentlyUsed(keep?: string): StoredEntry | null {
+    let oldestKey: string | null = null;
+    let oldest: StoredEntry | null = null;
+    this.storageKeys().forEach((storageKey) => {
+      if (storageKey === keep) return;
+      const entry = this.read(storageKey);
+      if (entry && (!oldest || entry.accessedAt < oldest.accessedAt)) {
+        oldest = entry;
+        oldestKey = storageKey;
+      }
+    });
+    if (oldestKey === null) return null;
+    this.storage!.removeItem(oldestKey);
+    return oldest;
+  }
+
+  private entrySize(entry: StoredEntry): number {
+    return entry.size ?? this.sizeOf(entry.data as T);
+  }
+
+  /** Evict the least recently used entries until `size` more bytes fit. */
+  private evictToFit(storageKey: string, size: number): void {
+    let total = size;
+    this.storageKeys().forEach((other) => {
+      if (other === storageKey) return;
+      const entry = this.read(other);
+      if (entry) total += this.entrySize(entry);
+    });
+    while (total > this.maxCacheBytes) {
+      const evicted = this.evictLeastRecentlyUsed(storageKey);
+      if (!evicted) return;
+      total -= this.entrySize(evicted);
+    }
+  }
+
+  /** Read an entry, with its `age` in ms. */
+  get(key: string): CacheHit<T> | null {
+    if (!this.storage) return null;
+    const storageKey = this.prefix + key;
+    const entry = this.read(storageKey);
+    if (!entry) return null;
+    const now = Date.now();
+    if (this.isExpired(entry, now)) {
+      this.storage.removeItem(storageKey);
+      return null;
+    }
+    if (this.cacheCapacity !== -1 || this.maxCacheBytes !== -1) {
+      this.write(storageKey, { ...entry, accessedAt: this.nextAccess() });
+    }
+    return { value: entry.data as T, age: now - entry.timestamp };
+  }
+
+  set(key: string, data: T): void {
+    if (!this.storage) return;
+    const storageKey = this.prefix + key;
+    const size = this.maxCacheBytes === -1 ? undefined : this.sizeOf(data);
+    if (size !== undefined && size > this.maxCacheBytes) {
+      // could never fit
+      this.storage.removeItem(storageKey);
+      return;
+    }
+    if (this.cacheCapacity !== -1 && this.storage.getItem(storageKey) === null) {
+      let count = this.storageKeys().length;
+      while (count >= this.cacheCapacity && this.evictLeastRecentlyUsed()) {
+        count--;
+      }
+    }
+    if (size !== undefined) {
+      this.evictToFit(storageKey, size);
+    }
+    this.write(storageKey, { data, timestamp: Date.now(), accessedAt: this.nextAccess(), size });
+  }
+
+  delete(key: string): void {
+    this.storage?.removeItem(this.prefix + key);
+  }
+
+  clear(): void {
+    this.storageKeys().forEach(storageKey => this.storage!.removeItem(storageKey));
+  }
+
+  clearExpired(): void {
+    if (this.ttl === -1) return;
+    const now = Date.now();
+    this.storageKeys().forEach((storageKey) => {
+      const entry = this.read(storageKey);
+      if (entry && this.isExpired(entry, now)) {
+        this.storage!.removeItem(storageKey);
+      }
+    });
+  }
+}
@@ -1,4 +1,5 @@
-import { defaultGenKeyByParams, PromiseFunction } from "./common";
+import { createLinkedAbortController, defaultGenKeyByParams, PromiseFunction } from "./common";
+import { AbortError } from "./errors";
 
 /**
  * Creates a function that ensures only the latest Promise result is used.
@@ -25,7 +26,10 @@ import { defaultGenKeyByParams, PromiseFunction } from "./common";
  * 
  * @param fn - The async function to wrap
  * @param getKey - Function to generate a key for grouping calls
- * @param isRetryFn - Internal flag for retry functionality
+ * @param isRetryFn - Internal flag for retry functionality. When set, `fn` is
+ *   called as `fn(params, signal)`; each call gets its own `AbortSignal`
+ *   (following the caller-supplied one, if any) which is aborted with an
+ *   `AbortError` as soon as a newer call for the same key supersedes it.
  * @returns A wrapped function that implements take-latest behavior
  */
 export function createTakeLatestPromiseFn<F extends PromiseFunction>(
@@ -34,6 +38,15 @@ export function createTakeLatestPromiseFn<F extends PromiseFunction>(
     isRetryFn?: boolean,
 ): (...args: Parameters<F>) => Promise<ReturnType<F>> {
     const runFnPromiseQueue = new Map<string | symbol, Promise<ReturnType<F>>[]>();
+    const latestControllers = new Map<string | symbol, AbortController>();
+
+    function createLatestController(key: string | symbol, upstream?: AbortSignal) {
+        const controller = createLinkedAbortController(upstream);
+        // the previous call for this key has been superseded
+        latestControllers.get(key)?.abort(new AbortError('Superseded by a newer call'));
+        latestControllers.set(key, controller);
+        return controller;
+    }
     
     function afterAllPromiseResolved(key: string | symbol): Promise<any> {
         if (runFnPromiseQueue.has(key) && runFnPromiseQueue.get(key)!.length > 0) {
@@ -50,7 +63,12 @@ export function createTakeLatestPromiseFn<F extends PromiseFunction>(
     
     function returnResWithStatus(key: string | symbol): Promise<ReturnType<F>> {
         const latestPromise = runFnPromiseQueue.get(key)!.at(-1);
+        const latestController = latestControllers.get(key);
         return Promise.allSettled([latestPromise]).then((res) => {
+            // the latest call has settled, there is nothing left to supersede
+            if (latestControllers.get(key) === latestController) {
+                latestControllers.delete(key);
+            }
             if (res[0].status === "rejected") {
                 return Promise.reject(res[0].reason);
             }
@@ -61,8 +79,10 @@ export function createTakeLatestPromiseFn<F extends PromiseFunction>(
     }
     
     return function (...args: any[]) {
-        const runFnPromise = fn(...args);
         const key = getKey(isRetryFn ? args[0] : args);
+        const runFnPromise = isRetryFn
+            ? fn(args[0], createLatestController(key, args[1]).signal)
+            : fn(...args);
         if (!runFnPromiseQueue.has(key)) {
             runFnPromiseQueue.set(key, [runFnPromise]);
         } else {
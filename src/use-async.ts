@@ -18,6 +18,8 @@ import { shareLoading, useLoadingState } from "./share-loading";
 import { IdCacheManager } from "./id-cache-manager";
 import { WeakMapCacheManager } from "./weak-map-cache-manager";
 import { useFn } from "./utils";
+import { cacheManagerOf, subscribeCacheEvents } from "./cache-events";
+import { ignoreCacheResult, isPromiseLike } from "./maybe-async";
 
 export interface AsyncFunctionState<T> {
   loading: boolean;
@@ -66,6 +68,17 @@ export interface UseAsyncOptions<F extends PromiseFunction>
    * on every error.
    */
   fallbackData?: PickPromiseType<F> | null;
+  /**
+   * Refetch the data of the latest call every `refetchInterval` ms while the
+   * component is mounted (see `fnProxy.poll`). Failed refetches set `error`
+   * without stopping it.
+   * @default -1
+   */
+  refetchInterval?: number;
+  /**
+   * stop refetching once the data satisfies it
+   */
+  refetchUntil?: (data: PickPromiseType<F>) => boolean;
 }
 
 export type UseAsyncReturn<F extends PromiseFunction> =
@@ -169,6 +182,8 @@ export const useAsync = <F extends PromiseFunction>(
     onBackgroundUpdate,
     initialData,
     fallbackData,
+    refetchInterval = -1,
+    refetchUntil,
     ...createAsyncOptions
   } = opts;
 
@@ -191,6 +206,8 @@ export const useAsync = <F extends PromiseFunction>(
     loadingId: '',
     onBackgroundUpdate: onBackgroundUpdate,
     fallbackData: resolvedFallback,
+    refetchInterval,
+    refetchUntil,
   });
   // Most options are frozen on first render (ttl, debounce, etc. are not
   // expected to change). id is the exception — it may contain dynamic values
@@ -215,6 +232,8 @@ export const useAsync = <F extends PromiseFunction>(
           id,
           createAsyncOpts.ttl ?? -1,
           createAsyncOpts.cacheCapacity ?? -1,
+          createAsyncOpts.maxCacheBytes ?? -1,
+          createAsyncOpts.sizeOf,
         )
       : null;
   }, [
@@ -222,6 +241,7 @@ export const useAsync = <F extends PromiseFunction>(
     id,
     createAsyncOpts.ttl,
     createAsyncOpts.cacheCapacity,
+    createAsyncOpts.maxCacheBytes,
   ]);
 
   // Stable getter so createRunFn always reads the latest cacheManagerForState.
@@ -231,15 +251,25 @@ export const useAsync = <F extends PromiseFunction>(
   });
 
   const defaultCacheKey = (createAsyncOpts.genKeyByParams || defaultGenKeyByParams)([] as any);
+  // params of the latest call (and their cache key), whose data the hook renders
+  const lastArgsRef = useRef<Parameters<F> | null>(null);
+  const lastKeyRef = useRef(defaultCacheKey);
+  // key of the latest call, as state so that refetching follows it
+  const [refetchKey, setRefetchKey] = useState<string | null>(null);
 
   const [asyncFunctionState, setAsyncFunctionState] = useState<
     AsyncFunctionState<PickPromiseType<F> | null>
   >(() => {
-    if (swr) {
-      const cached = getCachedData(defaultCacheKey);
-      if (cached) {
-        return { loading: false, error: null, data: cached.value };
-      }
+    // A cached value (e.g. from `prefetch`) is rendered right away: the
+    // first call either returns it as-is or, with swr, revalidates it in
+    // the background.
+    const cached = getCachedData(defaultCacheKey);
+    if (isPromiseLike(cached)) {
+      // An asynchronous manager cannot answer in time: loading is flagged
+      // as without a cache, and cleared by the first call once its lookup hits.
+      ignoreCacheResult(cached);
+    } else if (cached) {
+      return { loading: false, error: null, data: cached.value };
     }
     return {
       loading: manual === undefined ? (auto === true) : !manual,
@@ -257,6 +287,8 @@ export const useAsync = <F extends PromiseFunction>(
   argsRef.current.loadingId = loadingId || '';
   argsRef.current.onBackgroundUpdate = onBackgroundUpdate;
   argsRef.current.fallbackData = resolvedFallback;
+  argsRef.current.refetchInterval = refetchInterval;
+  argsRef.current.refetchUntil = refetchUntil;
 
   if (deps && !Array.isArray(deps)) {
     throw new Error("The deps must be an Array!");
@@ -290,11 +322,13 @@ export const useAsync = <F extends PromiseFunction>(
       ...createAsyncOpts,
       id,  // override frozen id with current value
       swr,
-      onBackgroundUpdateStart: swr ? (cachedData: PickPromiseType<F>) => {
+      // Also fired without swr, when a key invalidated through a shared
+      // cache is revalidated.
+      onBackgroundUpdateStart: (cachedData: PickPromiseType<F>) => {
         // Background update is starting, set backgroundUpdating state
         setBackgroundUpdating(true);
-      } : undefined,
-      onBackgroundUpdate: swr ? (data: PickPromiseType<F> | undefined, error: AsyncError | undefined) => {
+      },
+      onBackgroundUpdate: (data: PickPromiseType<F> | undefined, error: AsyncError | undefined) => {
         // Background update completed, update data and clear background updating state
         if (data !== undefined) {
           setAsyncFunctionState(prev => ({
@@ -311,7 +345,7 @@ export const useAsync = <F extends PromiseFunction>(
         }
         setBackgroundUpdating(false);
         argsRef.current.onBackgroundUpdate?.(data, error);
-      } : undefined,
+      },
       beforeRun:
         createAsyncOpts.debounceTime !== -1 ||
         createAsyncOpts.beforeRun
@@ -343,20 +377,40 @@ export const useAsync = <F extends PromiseFunction>(
       return async (...args: Parameters<F>) => {
         await Promise.resolve();
 
-        // Check if SWR has valid cache. Two complementary sources:
+        // Check for a valid cache entry, which the call returns without a
+        // loading state (and, with SWR, revalidates). Two complementary sources:
         // 1. getCachedData (via useFn) — covers `cacheManager` and `id` modes.
         // 2. WeakMapCacheManager.peek (via fnProxyRef) — covers the default
         //    WeakMap mode keyed by the fnProxy from createAsync.
         const cacheKey = (createAsyncOpts.genKeyByParams || defaultGenKeyByParams)(args);
-        const hasSWRCache = swr && !!(
-          getCachedData(cacheKey)
+        lastArgsRef.current = args;
+        lastKeyRef.current = cacheKey;
+        if (argsRef.current.refetchInterval > 0) {
+          setRefetchKey(cacheKey);
+        }
+        // An asynchronous manager is awaited first, so that a hit does not
+        // flash the loading state.
+        const stored = getCachedData(cacheKey);
+        const hit = isPromiseLike(stored) ? await Promise.resolve(stored).catch(() => null) : stored;
+        const hasCache = !!(
+          hit
           || WeakMapCacheManager.peek(fnProxyRef.current, cacheKey, {
             ttl: createAsyncOpts.ttl ?? -1,
             cacheCapacity: createAsyncOpts.cacheCapacity ?? -1,
+            maxCacheBytes: createAsyncOpts.maxCacheBytes,
           })
         );
+        if (hit && isPromiseLike(stored)) {
+          // the first render flagged loading while the lookup was pending
+          setAsyncFunctionState((ov) => {
+            if (!ov.loading) {
+              return ov;
+            }
+            return { ...ov, loading: false, data: hit.value };
+          });
+        }
 
-        if (createAsyncOpts.debounceTime === -1 && !hasSWRCache) {
+        if (createAsyncOpts.debounceTime === -1 && !hasCache) {
           setAsyncFunctionState((ov) => {
             if (ov.loading) {
               return ov;
@@ -441,6 +495,70 @@ export const useAsync = <F extends PromiseFunction>(
     runFn();
   }, [deps, runFn]);
 
+  // Keep the hook in sync with changes made through any function sharing the
+  // cache (same `id` or `cacheManager`, or `invalidateTags`): values written
+  // by setCache / updateCache replace the rendered data, invalidated keys are
+  // refetched in the background.
+  const cacheManager = cacheManagerForState || cacheManagerOf(fnProxy);
+  useEffect(() => {
+    if (!cacheManager) return;
+    return subscribeCacheEvents(cacheManager, (event) => {
+      if (event.key !== undefined && event.key !== lastKeyRef.current) return;
+      if (event.type === 'set') {
+        setAsyncFunctionState((ov) => {
+          if (ov.error === null && ov.data === event.value) {
+            return ov;
+          }
+          return { ...ov, error: null, data: event.value };
+        });
+        return;
+      }
+      const args = lastArgsRef.current;
+      if (!args) return;
+      // a cached value is returned right away and revalidated through
+      // onBackgroundUpdate; without one the call itself fetches. Either way
+      // beforeRun may have flagged loading, which the result clears.
+      fnProxyRef.current(...args).then((res) => {
+        setAsyncFunctionState((ov) => {
+          if (!ov.loading && ov.error === null && ov.data === res) {
+            return ov;
+          }
+          return { loading: false, error: null, data: res };
+        });
+      }, (err) => {
+        setAsyncFunctionState(ov => ({ ...ov, loading: false, error: err }));
+      });
+    });
+  }, [cacheManager]);
+
+  // Stopped on unmount, restarted for the params of each new call.
+  useEffect(() => {
+    const args = lastArgsRef.current;
+    if (refetchInterval <= 0 || refetchKey === null || !args) return;
+    const until = (data: PickPromiseType<F>) => !!argsRef.current.refetchUntil?.(data);
+    const current = fnProxy.getState(...args);
+    if (current.status === 'success' && until(current.data as PickPromiseType<F>)) return;
+    const handle = fnProxy.poll(args, {
+      interval: refetchInterval,
+      until,
+      immediate: false,
+      stopOnError: false,
+      // beforeRun may have flagged loading, which the result clears
+      onResult: (res) => {
+        setAsyncFunctionState((ov) => {
+          if (!ov.loading && ov.error === null && ov.data === res) {
+            return ov;
+          }
+          return { loading: false, error: null, data: res };
+        });
+      },
+      onError: (err) => {
+        setAsyncFunctionState(ov => ({ ...ov, loading: false, error: err }));
+      },
+    });
+    return handle.stop;
+  }, [fnProxy, refetchInterval, refetchKey]);
+
   const clearCacheFn = useFn(fnProxy.clearCache);
 
   const composedPendingState = asyncFunctionState.loading || sharedLoadingState;
@@ -1,6 +1,9 @@
 import type { CacheData, AnyFn } from "./common";
 import { LRU } from "./LRU";
-import type { CacheManager } from "./cache-manager";
+import type { CacheManager, CacheHit } from "./cache-manager";
+import { defaultSizeOf } from "./size-of";
+import { StaleKeys } from "./stale-keys";
+import { untagCacheEntry } from "./cache-tags";
 
 /**
  * Default cache strategy using WeakMap keyed by fnProxy.
@@ -24,7 +27,9 @@ export class WeakMapCacheManager<T = any> implements CacheManager<T> {
 
   /**
    * Read cached value for `fn` / `key` without going through an instance.
-   * Honors the same ttl / cacheCapacity guards as the instance `.get(key)`.
+   * Honors the same ttl / cacheCapacity / maxCacheBytes guards as the
+   * instance `.get(key)`,
+   * and reports the entry's `age` in ms.
    *
    * Used by `useAsync` to peek the cache before deciding whether to flip into
    * the loading state on SWR mode (avoids the loading flash).
@@ -32,50 +37,75 @@ export class WeakMapCacheManager<T = any> implements CacheManager<T> {
   static peek<U = any>(
     fn: AnyFn,
     key: string,
-    opts: { ttl: number; cacheCapacity: number },
-  ): { value: U } | null {
-    if (opts.ttl !== -1) {
-      const m = WeakMapCacheManager.cacheMap.get(fn);
-      const entry = m?.get(key);
-      if (entry && Date.now() - entry.timestamp < opts.ttl) {
-        return { value: entry.data as U };
-      }
-    }
-    if (opts.cacheCapacity !== -1) {
-      const m = WeakMapCacheManager.cacheMap.get(fn);
-      const entry = m?.get(key);
-      if (entry) return { value: entry.data as U };
+    opts: { ttl: number; cacheCapacity: number; maxCacheBytes?: number },
+  ): CacheHit<U> | null {
+    if (opts.ttl === -1 && opts.cacheCapacity === -1 && (opts.maxCacheBytes ?? -1) === -1) {
+      return null;
     }
-    return null;
+    const entry = WeakMapCacheManager.cacheMap.get(fn)?.get(key);
+    if (!entry) return null;
+    const age = Date.now() - entry.timestamp;
+    // capacity limits do not keep an entry older than ttl alive
+    if (opts.ttl !== -1 && age >= opts.ttl) return null;
+    return { value: entry.data as U, age };
   }
 
   private fn: AnyFn;
   private ttl: number;
   private cacheCapacity: number;
+  private maxCacheBytes: number;
 
-  constructor(fn: AnyFn, ttl: number, cacheCapacity: number) {
+  constructor(
+    fn: AnyFn,
+    ttl: number,
+    cacheCapacity: number,
+    maxCacheBytes: number = -1,
+    sizeOf: (value: T) => number = defaultSizeOf,
+  ) {
     this.fn = fn;
     this.ttl = ttl;
     this.cacheCapacity = cacheCapacity;
+    this.maxCacheBytes = maxCacheBytes;
     if (!WeakMapCacheManager.cacheMap.has(fn)) {
       WeakMapCacheManager.cacheMap.set(
         fn,
-        cacheCapacity === -1
+        cacheCapacity === -1 && maxCacheBytes === -1
           ? new Map<string, CacheData>()
-          : new LRU<string, CacheData>(cacheCapacity)
+          : new LRU<string, CacheData>(
+            cacheCapacity, maxCacheBytes, entry => sizeOf(entry.data), key => this.forget(key),
+          )
       );
     }
   }
 
-  get(key: string): { value: T } | null {
+  /** Whether the manager stores nothing: neither `ttl`, `cacheCapacity` nor `maxCacheBytes` is set. */
+  get cachingDisabled(): boolean {
+    return this.ttl === -1 && this.cacheCapacity === -1 && this.maxCacheBytes === -1;
+  }
+
+  /** An entry was evicted or expired: drop what is kept about it next to the cache. */
+  private forget(key: string): void {
+    StaleKeys.forManager(this).forget(key);
+    untagCacheEntry(this, key);
+  }
+
+  get(key: string): CacheHit<T> | null {
+    const m = WeakMapCacheManager.cacheMap.get(this.fn);
+    const entry = m?.get(key);
+    if (entry && this.ttl !== -1 && Date.now() - entry.timestamp >= this.ttl) {
+      m!.delete(key);
+      this.forget(key);
+      return null;
+    }
     return WeakMapCacheManager.peek<T>(this.fn, key, {
       ttl: this.ttl,
       cacheCapacity: this.cacheCapacity,
+      maxCacheBytes: this.maxCacheBytes,
     });
   }
 
   set(key: string, data: T): void {
-    if (this.ttl === -1 && this.cacheCapacity === -1) return;
+    if (this.cachingDisabled) return;
     const m = WeakMapCacheManager.cacheMap.get(this.fn);
     if (!m) return;
     if (m.get(key)?.data === data) return;
@@ -99,7 +129,10 @@ export class WeakMapCacheManager<T = any> implements CacheManager<T> {
     if (!m) return;
     const now = Date.now();
     m.forEach((v, k) => {
-      if (now - v.timestamp > this.ttl) m.delete(k);
+      if (now - v.timestamp > this.ttl) {
+        m.delete(k);
+        this.forget(k);
+      }
     });
   }
 }